@@ -4,22 +4,27 @@ import * as THREE from 'three';
 import { GLTFLoader, GLTF } from 'three/examples/jsm/loaders/GLTFLoader';
 
 import IrradianceSurfaceManager, {
-  IrradianceTextureContext
+  IrradianceTextureContext,
+  IrradianceTextureInfo
 } from './IrradianceSurfaceManager';
 import IrradianceSurface from './IrradianceSurface';
 import IrradianceLight from './IrradianceLight';
 import WorkManager from './WorkManager';
 import IrradianceAtlasMapper, { AtlasMap } from './IrradianceAtlasMapper';
-import IrradianceRenderer from './IrradianceRenderer';
-import { PROBE_BATCH_COUNT } from './IrradianceLightProbe';
+import IrradianceRenderer, { useBakeProgress } from './IrradianceRenderer';
+import { BAKE_PRESETS } from './IrradianceBakeSettings';
 import IrradianceCompositor from './IrradianceCompositor';
 import SceneControls from './SceneControls';
 import GridGeometry from './GridGeometry';
 import { DebugMaterial } from './DebugMaterial';
+import { validateAtlasMaps } from './AtlasMapReport';
+import { AtlasMapValidationOverlay } from './AtlasMapValidationOverlay';
 import { useRenderProp } from 'react-render-prop';
 
 import sceneUrl from './tile-game-room6.glb';
 
+const bakeSettings = BAKE_PRESETS.medium;
+
 const Scene: React.FC<{
   loadedData: GLTF;
 }> = React.memo(({ loadedData }) => {
@@ -68,14 +73,6 @@ const Scene: React.FC<{
           stdMat.emissiveMap.magFilter = THREE.NearestFilter;
         }
 
-        object.material = new THREE.MeshLambertMaterial({
-          color: stdMat.color,
-          map: stdMat.map,
-          emissive: stdMat.emissive,
-          emissiveMap: stdMat.emissiveMap,
-          emissiveIntensity: stdMat.emissiveIntensity
-        });
-
         // always cast shadow, but only albedo materials receive it
         object.castShadow = true;
 
@@ -85,8 +82,8 @@ const Scene: React.FC<{
 
         // special case for outer sunlight cover
         if (object.name === 'Cover') {
-          object.material.depthWrite = false;
-          object.material.colorWrite = false;
+          stdMat.depthWrite = false;
+          stdMat.colorWrite = false;
         }
       }
 
@@ -99,15 +96,27 @@ const Scene: React.FC<{
     };
   }, [loadedData]);
 
-  const [atlasMapSink, atlasMap] = useRenderProp<[AtlasMap | null]>();
-  const [baseLightTextureSink, baseLightTexture] = useRenderProp<
-    [THREE.Texture]
+  const [atlasMapSink, atlasMaps] = useRenderProp<[AtlasMap[] | null]>();
+  const [baseLightTextureSink, baseLightTextures] = useRenderProp<
+    [THREE.Texture[]]
   >();
 
-  const [outputTextureSink, outputTexture] = useRenderProp<
-    [THREE.Texture | null]
+  const [outputTextureSink, outputTextureInfo] = useRenderProp<
+    [IrradianceTextureInfo | null]
   >();
 
+  const [bakeProgressHandler, bakeProgress] = useBakeProgress();
+  const bakeFraction = bakeProgress
+    ? (bakeProgress.passIndex * bakeProgress.texelsTotal +
+        bakeProgress.texelsDone) /
+      (bakeProgress.passCount * bakeProgress.texelsTotal)
+    : 0;
+
+  const atlasReport = useMemo(
+    () => (atlasMaps ? validateAtlasMaps(atlasMaps) : null),
+    [atlasMaps]
+  );
+
   const baseMesh = loadedMeshList.find((item) => item.name === 'Base');
   const coverMesh = loadedMeshList.find((item) => item.name === 'Cover');
 
@@ -143,45 +152,80 @@ const Scene: React.FC<{
 
   return (
     <>
-      <IrradianceAtlasMapper>{atlasMapSink}</IrradianceAtlasMapper>
+      <IrradianceAtlasMapper width={64} height={64}>
+        {atlasMapSink}
+      </IrradianceAtlasMapper>
 
-      {atlasMap && (
+      {atlasMaps && (
         <IrradianceRenderer
-          atlasMap={atlasMap}
+          atlasMaps={atlasMaps}
           factorName={null}
+          settings={bakeSettings}
+          denoiseStrength={0.5}
+          progressive
           debugMesh={probeDebugMesh}
+          onProgress={bakeProgressHandler}
         >
           {baseLightTextureSink}
         </IrradianceRenderer>
       )}
 
       <scene ref={debugSceneRef}>
-        {outputTexture && (
+        {bakeFraction > 0 && bakeFraction < 1 && (
+          <mesh
+            position={[bakeFraction * 50, 99.5, 0]}
+            scale={[bakeFraction * 100, 1, 1]}
+          >
+            <planeBufferGeometry attach="geometry" args={[1, 1]} />
+            <meshBasicMaterial attach="material" color="#00a0ff" />
+          </mesh>
+        )}
+
+        {outputTextureInfo && (
           <mesh position={[85, 85, 0]}>
             <planeBufferGeometry attach="geometry" args={[20, 20]} />
-            <DebugMaterial attach="material" map={outputTexture} />
+            <DebugMaterial
+              attach="material"
+              map={outputTextureInfo.textures[0]}
+            />
           </mesh>
         )}
 
-        {atlasMap && (
+        {atlasMaps && (
           <mesh position={[85, 64, 0]}>
             <planeBufferGeometry attach="geometry" args={[20, 20]} />
-            <DebugMaterial attach="material" map={atlasMap.texture} />
+            <DebugMaterial attach="material" map={atlasMaps[0].texture} />
+          </mesh>
+        )}
+
+        {atlasMaps && atlasReport && (
+          <mesh position={[85, 43, 0]}>
+            <planeBufferGeometry attach="geometry" args={[20, 20]} />
+            <AtlasMapValidationOverlay
+              attach="material"
+              atlasMap={atlasMaps[0]}
+              pageIndex={0}
+              report={atlasReport}
+            />
           </mesh>
         )}
 
         <mesh
-          position={[10, 95 - (5 * PROBE_BATCH_COUNT) / 2, 0]}
+          position={[10, 95 - (5 * bakeSettings.probeBatchCount) / 2, 0]}
           ref={probeDebugMeshRef}
         >
           <planeBufferGeometry
             attach="geometry"
-            args={[10, 5 * PROBE_BATCH_COUNT]}
+            args={[10, 5 * bakeSettings.probeBatchCount]}
           />
         </mesh>
       </scene>
 
-      <IrradianceCompositor baseOutput={baseLightTexture} factorOutputs={{}}>
+      <IrradianceCompositor
+        atlasMaps={atlasMaps}
+        baseOutput={baseLightTextures}
+        factorOutputs={{}}
+      >
         {/* collect output for debug display */}
         <IrradianceTextureContext.Consumer>
           {outputTextureSink}
@@ -0,0 +1,274 @@
+import * as THREE from 'three';
+
+import {
+  decodeAtlasMapTexel,
+  AtlasMap,
+  AtlasMapTexel
+} from './IrradianceAtlasMapper';
+import { getBufferFaceIndexArray } from './IrradianceSurfaceManager';
+
+export interface AtlasTexelDensity {
+  mesh: THREE.Mesh;
+  pageIndex: number;
+  worldArea: number;
+  texelArea: number;
+  worldUnitsPerTexel: number; // average texel edge length in world space
+}
+
+// temp objects for computation
+const tmpA = new THREE.Vector3();
+const tmpB = new THREE.Vector3();
+const tmpC = new THREE.Vector3();
+
+// report resulting lightmap resolution for each surface in the atlas
+export function getAtlasTexelDensity(
+  atlasMaps: AtlasMap[]
+): AtlasTexelDensity[] {
+  const result: AtlasTexelDensity[] = [];
+
+  atlasMaps.forEach((atlasMap, pageIndex) => {
+    for (const atlasItem of atlasMap.items) {
+      const { originalMesh, originalBuffer, faceCount, faceStart } = atlasItem;
+
+      const indexArray = getBufferFaceIndexArray(originalBuffer);
+      const posArray = originalBuffer.attributes.position.array;
+      const uv2Attr = originalBuffer.attributes.uv2;
+
+      let worldArea = 0;
+      let texelArea = 0;
+
+      for (let faceIndex = 0; faceIndex < faceCount; faceIndex += 1) {
+        const faceVertexBase = (faceStart + faceIndex) * 3;
+        const vertexA = indexArray[faceVertexBase];
+        const vertexB = indexArray[faceVertexBase + 1];
+        const vertexC = indexArray[faceVertexBase + 2];
+
+        tmpA.fromArray(posArray, vertexA * 3);
+        tmpB.fromArray(posArray, vertexB * 3);
+        tmpC.fromArray(posArray, vertexC * 3);
+        tmpA.applyMatrix4(originalMesh.matrixWorld);
+        tmpB.applyMatrix4(originalMesh.matrixWorld);
+        tmpC.applyMatrix4(originalMesh.matrixWorld);
+
+        tmpB.sub(tmpA);
+        tmpC.sub(tmpA);
+        worldArea += tmpB.cross(tmpC).length() / 2;
+
+        const au = uv2Attr.getX(vertexA) * atlasMap.width;
+        const av = uv2Attr.getY(vertexA) * atlasMap.height;
+        const bu = uv2Attr.getX(vertexB) * atlasMap.width - au;
+        const bv = uv2Attr.getY(vertexB) * atlasMap.height - av;
+        const cu = uv2Attr.getX(vertexC) * atlasMap.width - au;
+        const cv = uv2Attr.getY(vertexC) * atlasMap.height - av;
+        texelArea += Math.abs(bu * cv - bv * cu) / 2;
+      }
+
+      result.push({
+        mesh: originalMesh,
+        pageIndex,
+        worldArea,
+        texelArea,
+        worldUnitsPerTexel:
+          texelArea > 0 ? Math.sqrt(worldArea / texelArea) : Infinity
+      });
+    }
+  });
+
+  return result;
+}
+
+export interface AtlasMapFaceRef {
+  pageIndex: number;
+  itemIndex: number;
+  faceIndex: number;
+}
+
+export interface AtlasMapOverlap {
+  pageIndex: number;
+  itemIndexA: number;
+  faceIndexA: number;
+  itemIndexB: number;
+  faceIndexB: number;
+  texelCount: number;
+}
+
+export interface AtlasMapItemStats {
+  mesh: THREE.Mesh;
+  pageIndex: number;
+  itemIndex: number;
+  texelCount: number; // texels actually assigned to this item in the map
+}
+
+export interface AtlasMapValidationReport {
+  isValid: boolean;
+  overlaps: AtlasMapOverlap[];
+  outOfRangeFaces: AtlasMapFaceRef[];
+  emptyFaces: AtlasMapFaceRef[]; // faces that did not end up with any texels
+  items: AtlasMapItemStats[];
+  overlapMasks: Uint8Array[]; // per page, non-zero where faces overlap
+}
+
+// check face layout for overlaps and out-of-range UVs and cross-check
+// with what actually got rasterized into the map
+export function validateAtlasMaps(
+  atlasMaps: AtlasMap[]
+): AtlasMapValidationReport {
+  const overlaps: AtlasMapOverlap[] = [];
+  const outOfRangeFaces: AtlasMapFaceRef[] = [];
+  const emptyFaces: AtlasMapFaceRef[] = [];
+  const items: AtlasMapItemStats[] = [];
+  const overlapMasks: Uint8Array[] = [];
+
+  const texel: AtlasMapTexel = {
+    itemIndex: 0,
+    faceIndex: 0,
+    faceU: 0,
+    faceV: 0
+  };
+
+  atlasMaps.forEach((atlasMap, pageIndex) => {
+    const { width, height } = atlasMap;
+    const pageTexelCount = width * height;
+
+    // which face covers each texel according to face UVs
+    const ownerItems = new Int32Array(pageTexelCount).fill(-1);
+    const ownerFaces = new Int32Array(pageTexelCount);
+    const overlapMask = new Uint8Array(pageTexelCount);
+    const pageOverlaps = new Map<string, AtlasMapOverlap>();
+
+    atlasMap.items.forEach((atlasItem, itemIndex) => {
+      const uvArray = atlasItem.faceBuffer.attributes.uv.array;
+
+      for (let faceIndex = 0; faceIndex < atlasItem.faceCount; faceIndex += 1) {
+        const uvBase = faceIndex * 6;
+
+        // anything outside the atlas is silently lost during rendering
+        for (let corner = 0; corner < 6; corner += 1) {
+          const value = uvArray[uvBase + corner];
+
+          if (value < 0 || value > 1) {
+            outOfRangeFaces.push({ pageIndex, itemIndex, faceIndex });
+            break;
+          }
+        }
+
+        const ax = uvArray[uvBase] * width;
+        const ay = uvArray[uvBase + 1] * height;
+        const bx = uvArray[uvBase + 2] * width;
+        const by = uvArray[uvBase + 3] * height;
+        const cx = uvArray[uvBase + 4] * width;
+        const cy = uvArray[uvBase + 5] * height;
+
+        // signed area to normalize for arbitrary winding
+        const area = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+        if (area === 0) {
+          continue;
+        }
+
+        const minX = Math.max(0, Math.floor(Math.min(ax, bx, cx)));
+        const maxX = Math.min(width - 1, Math.ceil(Math.max(ax, bx, cx)));
+        const minY = Math.max(0, Math.floor(Math.min(ay, by, cy)));
+        const maxY = Math.min(height - 1, Math.ceil(Math.max(ay, by, cy)));
+
+        for (let y = minY; y <= maxY; y += 1) {
+          for (let x = minX; x <= maxX; x += 1) {
+            const px = x + 0.5;
+            const py = y + 0.5;
+
+            // strictly inside only, so that shared edges do not count as overlap
+            const wa = ((bx - px) * (cy - py) - (by - py) * (cx - px)) / area;
+            const wb = ((cx - px) * (ay - py) - (cy - py) * (ax - px)) / area;
+            const wc = 1 - wa - wb;
+
+            if (wa <= 0 || wb <= 0 || wc <= 0) {
+              continue;
+            }
+
+            const texelIndex = y * width + x;
+            const ownerItemIndex = ownerItems[texelIndex];
+
+            if (ownerItemIndex === -1) {
+              ownerItems[texelIndex] = itemIndex;
+              ownerFaces[texelIndex] = faceIndex;
+              continue;
+            }
+
+            overlapMask[texelIndex] = 1;
+
+            const ownerFaceIndex = ownerFaces[texelIndex];
+            const overlapKey = `${ownerItemIndex}:${ownerFaceIndex}:${itemIndex}:${faceIndex}`;
+            const overlap = pageOverlaps.get(overlapKey);
+
+            if (overlap) {
+              overlap.texelCount += 1;
+            } else {
+              pageOverlaps.set(overlapKey, {
+                pageIndex,
+                itemIndexA: ownerItemIndex,
+                faceIndexA: ownerFaceIndex,
+                itemIndexB: itemIndex,
+                faceIndexB: faceIndex,
+                texelCount: 1
+              });
+            }
+          }
+        }
+      }
+    });
+
+    pageOverlaps.forEach((overlap) => {
+      overlaps.push(overlap);
+    });
+    overlapMasks.push(overlapMask);
+
+    // tally what was actually rendered into the map
+    const itemTexelCounts = atlasMap.items.map(() => 0);
+    const faceTexelCounts = atlasMap.items.map(
+      (atlasItem) => new Uint32Array(atlasItem.faceCount)
+    );
+
+    for (let texelIndex = 0; texelIndex < pageTexelCount; texelIndex += 1) {
+      if (!decodeAtlasMapTexel(atlasMap.data, texelIndex, texel)) {
+        continue;
+      }
+
+      const { itemIndex, faceIndex } = texel;
+      if (
+        itemIndex >= atlasMap.items.length ||
+        faceIndex >= atlasMap.items[itemIndex].faceCount
+      ) {
+        continue;
+      }
+
+      itemTexelCounts[itemIndex] += 1;
+      faceTexelCounts[itemIndex][faceIndex] += 1;
+    }
+
+    atlasMap.items.forEach((atlasItem, itemIndex) => {
+      items.push({
+        mesh: atlasItem.originalMesh,
+        pageIndex,
+        itemIndex,
+        texelCount: itemTexelCounts[itemIndex]
+      });
+
+      faceTexelCounts[itemIndex].forEach((count, faceIndex) => {
+        if (count === 0) {
+          emptyFaces.push({ pageIndex, itemIndex, faceIndex });
+        }
+      });
+    });
+  });
+
+  return {
+    isValid:
+      overlaps.length === 0 &&
+      outOfRangeFaces.length === 0 &&
+      emptyFaces.length === 0,
+    overlaps,
+    outOfRangeFaces,
+    emptyFaces,
+    items,
+    overlapMasks
+  };
+}
@@ -0,0 +1,112 @@
+import React, { useMemo, useEffect } from 'react';
+import * as THREE from 'three';
+
+import {
+  decodeAtlasMapTexel,
+  AtlasMap,
+  AtlasMapTexel
+} from './IrradianceAtlasMapper';
+import { AtlasMapFaceRef, AtlasMapValidationReport } from './AtlasMapReport';
+import { DebugMaterial } from './DebugMaterial';
+
+const COVERED_COLOR = [0, 0.3, 0, 1];
+const OVERLAP_COLOR = [1, 0, 0, 1];
+const EMPTY_FACE_COLOR = [1, 1, 0, 1];
+const OUT_OF_RANGE_COLOR = [1, 0, 1, 1];
+
+// mark the texel nearest to face UV centroid (clamped to stay on the map)
+function markFace(
+  data: Float32Array,
+  atlasMap: AtlasMap,
+  faceRef: AtlasMapFaceRef,
+  color: number[]
+) {
+  const { width, height } = atlasMap;
+  const uvArray =
+    atlasMap.items[faceRef.itemIndex].faceBuffer.attributes.uv.array;
+  const uvBase = faceRef.faceIndex * 6;
+
+  const u = (uvArray[uvBase] + uvArray[uvBase + 2] + uvArray[uvBase + 4]) / 3;
+  const v =
+    (uvArray[uvBase + 1] + uvArray[uvBase + 3] + uvArray[uvBase + 5]) / 3;
+
+  const x = Math.min(width - 1, Math.max(0, Math.floor(u * width)));
+  const y = Math.min(height - 1, Math.max(0, Math.floor(v * height)));
+
+  data.set(color, (y * width + x) * 4);
+}
+
+function createValidationTexture(
+  atlasMap: AtlasMap,
+  pageIndex: number,
+  report: AtlasMapValidationReport
+) {
+  const { width, height } = atlasMap;
+  const data = new Float32Array(width * height * 4);
+
+  const texel: AtlasMapTexel = {
+    itemIndex: 0,
+    faceIndex: 0,
+    faceU: 0,
+    faceV: 0
+  };
+
+  const overlapMask = report.overlapMasks[pageIndex];
+
+  for (let texelIndex = 0; texelIndex < width * height; texelIndex += 1) {
+    if (overlapMask[texelIndex]) {
+      data.set(OVERLAP_COLOR, texelIndex * 4);
+    } else if (decodeAtlasMapTexel(atlasMap.data, texelIndex, texel)) {
+      data.set(COVERED_COLOR, texelIndex * 4);
+    }
+  }
+
+  for (const faceRef of report.emptyFaces) {
+    if (faceRef.pageIndex === pageIndex) {
+      markFace(data, atlasMap, faceRef, EMPTY_FACE_COLOR);
+    }
+  }
+
+  for (const faceRef of report.outOfRangeFaces) {
+    if (faceRef.pageIndex === pageIndex) {
+      markFace(data, atlasMap, faceRef, OUT_OF_RANGE_COLOR);
+    }
+  }
+
+  const texture = new THREE.DataTexture(
+    data,
+    width,
+    height,
+    THREE.RGBAFormat,
+    THREE.FloatType
+  );
+
+  texture.magFilter = THREE.NearestFilter;
+  texture.minFilter = THREE.NearestFilter;
+  texture.generateMipmaps = false;
+
+  return texture;
+}
+
+// debug display of atlas page problems: overlaps in red, faces without texels in yellow,
+// faces outside the atlas in magenta (clamped to edge)
+export const AtlasMapValidationOverlay: React.FC<{
+  attach?: string;
+  atlasMap: AtlasMap;
+  pageIndex: number;
+  report: AtlasMapValidationReport;
+}> = ({ attach, atlasMap, pageIndex, report }) => {
+  const texture = useMemo(
+    () => createValidationTexture(atlasMap, pageIndex, report),
+    [atlasMap, pageIndex, report]
+  );
+
+  useEffect(
+    () => () => {
+      texture.dispose();
+    },
+    [texture]
+  );
+
+  return <DebugMaterial attach={attach} map={texture} />;
+};
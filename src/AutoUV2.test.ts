@@ -0,0 +1,209 @@
+import * as THREE from 'three';
+
+import { computeAutoUV2, createAutoUV2Charts } from './AutoUV2';
+import { createAtlasMapItem, AtlasMap } from './IrradianceAtlasMapper';
+import { AtlasSceneItem } from './IrradianceSurfaceManager';
+import { getAtlasTexelDensity, AtlasTexelDensity } from './AtlasMapReport';
+
+const ATLAS_SIZE = 64;
+
+// square panel, optionally with authored lightmap UVs scaled down from regular UVs
+function createPanel(position: THREE.Vector3, authoredUV2Scale: number | null) {
+  const buffer = new THREE.PlaneBufferGeometry(4, 4);
+
+  if (authoredUV2Scale !== null) {
+    const uvArray = buffer.attributes.uv.array;
+    buffer.setAttribute(
+      'uv2',
+      new THREE.Float32BufferAttribute(
+        Array.from(uvArray, (value) => value * authoredUV2Scale),
+        2
+      )
+    );
+  }
+
+  const mesh = new THREE.Mesh(buffer);
+  mesh.position.copy(position);
+  mesh.rotation.x = -Math.PI / 2;
+  mesh.updateMatrixWorld();
+
+  return mesh;
+}
+
+function createSceneItem(
+  mesh: THREE.Mesh,
+  lightmapScale: number | null
+): AtlasSceneItem {
+  return {
+    mesh,
+    buffer: mesh.geometry,
+    material: new THREE.MeshLambertMaterial(),
+    factorName: null,
+    animationClip: null,
+    indexRange: null,
+    lightmapScale
+  };
+}
+
+// lay out given items the same way the atlas mapper does and measure the result
+function getWorldUnitsPerTexel(items: AtlasSceneItem[]) {
+  const itemPages = computeAutoUV2(
+    items.map(({ mesh, buffer, lightmapScale }) => ({
+      buffer: buffer as THREE.BufferGeometry,
+      matrixWorld: mesh.matrixWorld,
+      lightmapScale
+    })),
+    1,
+    2 / ATLAS_SIZE
+  );
+
+  const atlasMaps: AtlasMap[] = [];
+  items.forEach((item, itemIndex) => {
+    const pageIndex = itemPages[itemIndex];
+
+    while (atlasMaps.length <= pageIndex) {
+      atlasMaps.push({
+        width: ATLAS_SIZE,
+        height: ATLAS_SIZE,
+        items: [],
+        data: new Float32Array(ATLAS_SIZE * ATLAS_SIZE * 4),
+        texture: new THREE.Texture()
+      });
+    }
+
+    const pageItems = atlasMaps[pageIndex].items;
+    pageItems.push(createAtlasMapItem(item, pageItems.length));
+  });
+
+  const densities = getAtlasTexelDensity(atlasMaps);
+  return items.map(({ mesh }) => {
+    const density = densities.find((density) => density.mesh === mesh);
+    return (density as AtlasTexelDensity).worldUnitsPerTexel;
+  });
+}
+
+describe('auto UV2 lightmap scale', () => {
+  it('is relative to authored layout density', () => {
+    const ceiling = createPanel(new THREE.Vector3(0, 3, 0), 0.25);
+    const floor = createPanel(new THREE.Vector3(0, 0, 0), 1);
+
+    const [ceilingSize, floorSize] = getWorldUnitsPerTexel([
+      createSceneItem(ceiling, null),
+      createSceneItem(floor, 2)
+    ]);
+
+    // authored layout is kept as is
+    expect(ceilingSize).toBeCloseTo(4 / (0.25 * ATLAS_SIZE));
+    expect(ceilingSize / floorSize).toBeCloseTo(2);
+  });
+
+  it('is relative between generated layouts', () => {
+    const ceiling = createPanel(new THREE.Vector3(0, 3, 0), null);
+    const floor = createPanel(new THREE.Vector3(0, 0, 0), null);
+
+    const [ceilingSize, floorSize] = getWorldUnitsPerTexel([
+      createSceneItem(ceiling, null),
+      createSceneItem(floor, 2)
+    ]);
+
+    expect(ceilingSize / floorSize).toBeCloseTo(2);
+  });
+});
+
+describe('auto UV2 page budget', () => {
+  it('fails instead of adding pages past the budget', () => {
+    const wall = createPanel(new THREE.Vector3(0, 0, 0), 1); // fills whole page
+    const floor = createPanel(new THREE.Vector3(0, 3, 0), null);
+
+    expect(() =>
+      getWorldUnitsPerTexel([
+        createSceneItem(wall, null),
+        createSceneItem(floor, null)
+      ])
+    ).toThrow('page budget');
+  });
+});
+
+describe('auto UV2 vertex data', () => {
+  it('keeps attribute types, interleaved data and morph targets', () => {
+    const buffer = new THREE.PlaneBufferGeometry(2, 2, 2, 2);
+    const vertexCount = buffer.attributes.position.count;
+
+    // interleave positions with a padding component, like glTF exporters do
+    const interleaved = new THREE.InterleavedBuffer(
+      new Float32Array(vertexCount * 4),
+      4
+    );
+    const position = new THREE.InterleavedBufferAttribute(interleaved, 3, 0);
+    for (let vertexIndex = 0; vertexIndex < vertexCount; vertexIndex += 1) {
+      const sourceBase = vertexIndex * 3;
+      const sourceArray = buffer.attributes.position.array;
+      position.setXYZ(
+        vertexIndex,
+        sourceArray[sourceBase],
+        sourceArray[sourceBase + 1],
+        sourceArray[sourceBase + 2]
+      );
+    }
+    buffer.setAttribute('position', position);
+
+    buffer.setAttribute(
+      'color',
+      new THREE.BufferAttribute(
+        new Uint8Array(vertexCount * 3).fill(255),
+        3,
+        true
+      )
+    );
+    buffer.morphAttributes.position = [
+      new THREE.Float32BufferAttribute(new Array(vertexCount * 3).fill(1), 3)
+    ];
+
+    const mesh = new THREE.Mesh(buffer);
+    computeAutoUV2(
+      [{ buffer, matrixWorld: mesh.matrixWorld, lightmapScale: null }],
+      1,
+      2 / ATLAS_SIZE
+    );
+
+    const newVertexCount = buffer.attributes.uv2.count;
+    const { color } = buffer.attributes;
+    const morphPosition = buffer.morphAttributes.position[0];
+
+    expect(buffer.attributes.position).toBeInstanceOf(THREE.BufferAttribute);
+    expect(buffer.attributes.position.count).toBe(newVertexCount);
+    expect(color.array).toBeInstanceOf(Uint8Array);
+    expect(color.normalized).toBe(true);
+    expect(Array.from(color.array).every((value) => value === 255)).toBe(true);
+    expect(morphPosition.count).toBe(newVertexCount);
+    expect(Array.from(morphPosition.array).every((value) => value === 1)).toBe(
+      true
+    );
+  });
+});
+
+describe('non-indexed geometry', () => {
+  // small grid with lightmap UVs, and its non-indexed copy
+  const indexedBuffer = new THREE.PlaneBufferGeometry(2, 2, 2, 2);
+  indexedBuffer.setAttribute(
+    'uv2',
+    (indexedBuffer.attributes.uv as THREE.BufferAttribute).clone()
+  );
+  const nonIndexedBuffer = indexedBuffer.toNonIndexed();
+
+  it('is unwrapped into the same charts', () => {
+    const getCharts = (buffer: THREE.BufferGeometry) =>
+      createAutoUV2Charts(buffer, new THREE.Matrix4(), 1).map(
+        ({ faces, faceUVs, width, height }) => ({
+          faces,
+          faceUVs,
+          width,
+          height
+        })
+      );
+
+    const charts = getCharts(indexedBuffer);
+    expect(charts.length).toBe(1);
+    expect(getCharts(nonIndexedBuffer)).toEqual(charts);
+  });
+});
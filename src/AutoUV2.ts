@@ -0,0 +1,1086 @@
+import * as THREE from 'three';
+
+import { getBufferFaceIndexArray } from './IrradianceSurfaceManager';
+import { computeNormalCardinalDirections } from './IrradianceAtlasMapper';
+
+// faces join a chart while they are within this angle of the chart seed normal
+const CHART_NORMAL_THRESHOLD = Math.cos(Math.PI / 6);
+
+// precision used to weld vertices that share a position but not an index
+const WELD_PRECISION = 1e4;
+
+// layout is done on a fixed grid per page, independent of atlas resolution
+// (so that it can be shared between atlas maps of different sizes)
+const LAYOUT_GRID_SIZE = 512;
+
+// charts are initially sized to fill this much of the free space, then shrunk until they fit
+const PACKING_TARGET_FILL = 0.7;
+const PACKING_SHRINK_FACTOR = 0.9;
+const PACKING_MAX_ATTEMPTS = 60;
+
+// authored layout kept intact as one rigid chart
+export interface AutoUV2AuthoredLayout {
+  uv2Attr: THREE.BufferAttribute;
+  minU: number;
+  minV: number;
+  unitScale: number; // world units per authored UV unit
+}
+
+export interface AutoUV2Chart {
+  buffer: THREE.BufferGeometry;
+  faces: number[];
+  faceUVs: number[]; // flattened position per face corner, in world units
+  width: number;
+  height: number;
+  lightmapScale: number; // texel density multiplier
+  authoredLayout: AutoUV2AuthoredLayout | null;
+}
+
+export interface AutoUV2ChartPlacement {
+  pageIndex: number;
+  x: number; // lower-left corner of chart contents, in UV units
+  y: number;
+  scale: number; // UV units per world unit
+}
+
+// authored uv2 is kept in place unless there is a lightmap scale
+export interface AutoUV2Item {
+  buffer: THREE.BufferGeometry;
+  matrixWorld: THREE.Matrix4;
+  lightmapScale: number | null;
+}
+
+// generated layout info, stored in geometry user data
+export interface AutoUV2Layout {
+  pageIndex: number;
+  lightmapScale: number;
+}
+
+// temp objects for computation
+const tmpA = new THREE.Vector3();
+const tmpB = new THREE.Vector3();
+const tmpC = new THREE.Vector3();
+const tmpNormal = new THREE.Vector3();
+const tmpVertexNormal = new THREE.Vector3();
+const tmpU = new THREE.Vector3();
+const tmpV = new THREE.Vector3();
+const tmpNormalMatrix = new THREE.Matrix3();
+
+// key for matching up vertices by position (e.g. across split normals or UVs)
+export function getPositionKey(
+  posArray: ArrayLike<number>,
+  vertexIndex: number
+) {
+  const base = vertexIndex * 3;
+  return [
+    Math.round(posArray[base] * WELD_PRECISION),
+    Math.round(posArray[base + 1] * WELD_PRECISION),
+    Math.round(posArray[base + 2] * WELD_PRECISION)
+  ].join(',');
+}
+
+// group faces into charts by normal and adjacency and flatten each chart onto its plane
+export function createAutoUV2Charts(
+  buffer: THREE.BufferGeometry,
+  matrixWorld: THREE.Matrix4,
+  lightmapScale: number
+): AutoUV2Chart[] {
+  const indexArray = getBufferFaceIndexArray(buffer);
+  const posAttr = buffer.attributes.position;
+  const normalAttr = buffer.attributes.normal;
+
+  if (!posAttr || !(posAttr instanceof THREE.BufferAttribute)) {
+    throw new Error('expected position attribute');
+  }
+
+  const posArray = posAttr.array;
+  const faceCount = indexArray.length / 3;
+
+  tmpNormalMatrix.getNormalMatrix(matrixWorld);
+
+  // world-space vertex positions (used for both normals and flattening)
+  const worldPosArray = new Float32Array(posAttr.count * 3);
+  for (let vertexIndex = 0; vertexIndex < posAttr.count; vertexIndex += 1) {
+    tmpA.fromArray(posArray, vertexIndex * 3);
+    tmpA.applyMatrix4(matrixWorld);
+    tmpA.toArray(worldPosArray, vertexIndex * 3);
+  }
+
+  // geometric face normals and areas, oriented to agree with source vertex normals
+  // (winding order is unknown, same as in the atlas mapper)
+  const faceNormals = new Float32Array(faceCount * 3);
+  const faceAreas = new Float32Array(faceCount);
+
+  for (let faceIndex = 0; faceIndex < faceCount; faceIndex += 1) {
+    const faceVertexBase = faceIndex * 3;
+    tmpA.fromArray(worldPosArray, indexArray[faceVertexBase] * 3);
+    tmpB.fromArray(worldPosArray, indexArray[faceVertexBase + 1] * 3);
+    tmpC.fromArray(worldPosArray, indexArray[faceVertexBase + 2] * 3);
+
+    tmpB.sub(tmpA);
+    tmpC.sub(tmpA);
+    tmpNormal.crossVectors(tmpB, tmpC);
+
+    faceAreas[faceIndex] = tmpNormal.length() / 2;
+    tmpNormal.normalize();
+
+    if (normalAttr) {
+      tmpVertexNormal.set(0, 0, 0);
+      for (let corner = 0; corner < 3; corner += 1) {
+        const vertexIndex = indexArray[faceVertexBase + corner];
+        tmpVertexNormal.x += normalAttr.getX(vertexIndex);
+        tmpVertexNormal.y += normalAttr.getY(vertexIndex);
+        tmpVertexNormal.z += normalAttr.getZ(vertexIndex);
+      }
+      tmpVertexNormal.applyMatrix3(tmpNormalMatrix);
+
+      if (tmpVertexNormal.dot(tmpNormal) < 0) {
+        tmpNormal.negate();
+      }
+    }
+
+    tmpNormal.toArray(faceNormals, faceVertexBase);
+  }
+
+  // find neighbouring faces via welded edges
+  const vertexKeys = new Array<string>(posAttr.count);
+  for (let vertexIndex = 0; vertexIndex < posAttr.count; vertexIndex += 1) {
+    vertexKeys[vertexIndex] = getPositionKey(posArray, vertexIndex);
+  }
+
+  const edgeFaces = new Map<string, number[]>();
+  for (let faceIndex = 0; faceIndex < faceCount; faceIndex += 1) {
+    for (let corner = 0; corner < 3; corner += 1) {
+      const keyA = vertexKeys[indexArray[faceIndex * 3 + corner]];
+      const keyB = vertexKeys[indexArray[faceIndex * 3 + ((corner + 1) % 3)]];
+      const edgeKey = keyA < keyB ? `${keyA}|${keyB}` : `${keyB}|${keyA}`;
+
+      const faceList = edgeFaces.get(edgeKey);
+      if (faceList) {
+        faceList.push(faceIndex);
+      } else {
+        edgeFaces.set(edgeKey, [faceIndex]);
+      }
+    }
+  }
+
+  const faceNeighbours = new Array<number[]>(faceCount);
+  for (let faceIndex = 0; faceIndex < faceCount; faceIndex += 1) {
+    faceNeighbours[faceIndex] = [];
+  }
+
+  edgeFaces.forEach((faceList) => {
+    for (const faceIndex of faceList) {
+      for (const otherFaceIndex of faceList) {
+        if (otherFaceIndex !== faceIndex) {
+          faceNeighbours[faceIndex].push(otherFaceIndex);
+        }
+      }
+    }
+  });
+
+  // flood-fill charts starting from each unassigned face
+  const faceChart = new Int32Array(faceCount).fill(-1);
+  const charts: AutoUV2Chart[] = [];
+
+  for (let seedIndex = 0; seedIndex < faceCount; seedIndex += 1) {
+    if (faceChart[seedIndex] !== -1) {
+      continue;
+    }
+
+    const chartIndex = charts.length;
+    const faces = [seedIndex];
+    faceChart[seedIndex] = chartIndex;
+
+    const seedNormal = new THREE.Vector3().fromArray(
+      faceNormals,
+      seedIndex * 3
+    );
+
+    for (let queuePos = 0; queuePos < faces.length; queuePos += 1) {
+      for (const neighbourIndex of faceNeighbours[faces[queuePos]]) {
+        if (faceChart[neighbourIndex] !== -1) {
+          continue;
+        }
+
+        tmpNormal.fromArray(faceNormals, neighbourIndex * 3);
+        if (tmpNormal.dot(seedNormal) < CHART_NORMAL_THRESHOLD) {
+          continue;
+        }
+
+        faceChart[neighbourIndex] = chartIndex;
+        faces.push(neighbourIndex);
+      }
+    }
+
+    // project onto the plane of the area-weighted chart normal
+    const chartNormal = new THREE.Vector3();
+    for (const faceIndex of faces) {
+      tmpNormal.fromArray(faceNormals, faceIndex * 3);
+      chartNormal.addScaledVector(tmpNormal, faceAreas[faceIndex]);
+    }
+
+    if (chartNormal.lengthSq() === 0) {
+      chartNormal.copy(seedNormal);
+    }
+    chartNormal.normalize();
+
+    // same "left" and "up" convention as for probe orientation
+    computeNormalCardinalDirections(chartNormal, tmpU, tmpV);
+
+    const faceUVs = new Array<number>(faces.length * 6);
+    let minU = Infinity,
+      minV = Infinity,
+      maxU = -Infinity,
+      maxV = -Infinity;
+
+    faces.forEach((faceIndex, chartFaceIndex) => {
+      for (let corner = 0; corner < 3; corner += 1) {
+        tmpA.fromArray(worldPosArray, indexArray[faceIndex * 3 + corner] * 3);
+
+        const u = tmpA.dot(tmpU);
+        const v = tmpA.dot(tmpV);
+
+        faceUVs[(chartFaceIndex * 3 + corner) * 2] = u;
+        faceUVs[(chartFaceIndex * 3 + corner) * 2 + 1] = v;
+
+        minU = Math.min(minU, u);
+        minV = Math.min(minV, v);
+        maxU = Math.max(maxU, u);
+        maxV = Math.max(maxV, v);
+      }
+    });
+
+    // move chart to origin
+    for (let i = 0; i < faceUVs.length; i += 2) {
+      faceUVs[i] -= minU;
+      faceUVs[i + 1] -= minV;
+    }
+
+    charts.push({
+      buffer,
+      faces,
+      faceUVs,
+      width: maxU - minU,
+      height: maxV - minV,
+      lightmapScale,
+      authoredLayout: null
+    });
+  }
+
+  return charts;
+}
+
+// total world-space and UV-space area of geometry faces
+function getLayoutAreas(
+  buffer: THREE.BufferGeometry,
+  matrixWorld: THREE.Matrix4,
+  uv2Attr: THREE.BufferAttribute
+) {
+  const indexArray = getBufferFaceIndexArray(buffer);
+  const posArray = buffer.attributes.position.array;
+
+  let worldArea = 0;
+  let uvArea = 0;
+
+  for (
+    let faceVertexBase = 0;
+    faceVertexBase < indexArray.length;
+    faceVertexBase += 3
+  ) {
+    const vertexA = indexArray[faceVertexBase];
+    const vertexB = indexArray[faceVertexBase + 1];
+    const vertexC = indexArray[faceVertexBase + 2];
+
+    tmpA.fromArray(posArray, vertexA * 3).applyMatrix4(matrixWorld);
+    tmpB.fromArray(posArray, vertexB * 3).applyMatrix4(matrixWorld);
+    tmpC.fromArray(posArray, vertexC * 3).applyMatrix4(matrixWorld);
+    tmpB.sub(tmpA);
+    tmpC.sub(tmpA);
+    worldArea += tmpNormal.crossVectors(tmpB, tmpC).length() / 2;
+
+    const au = uv2Attr.getX(vertexA);
+    const av = uv2Attr.getY(vertexA);
+    const bu = uv2Attr.getX(vertexB) - au;
+    const bv = uv2Attr.getY(vertexB) - av;
+    const cu = uv2Attr.getX(vertexC) - au;
+    const cv = uv2Attr.getY(vertexC) - av;
+    uvArea += Math.abs(bu * cv - bv * cu) / 2;
+  }
+
+  return { worldArea, uvArea };
+}
+
+// wrap existing lightmap UVs into a single chart sized to match world-space area
+export function createAuthoredUV2Chart(
+  buffer: THREE.BufferGeometry,
+  matrixWorld: THREE.Matrix4,
+  lightmapScale: number,
+  uv2Attr: THREE.BufferAttribute
+): AutoUV2Chart {
+  const indexArray = getBufferFaceIndexArray(buffer);
+  const posAttr = buffer.attributes.position;
+  if (!posAttr || !(posAttr instanceof THREE.BufferAttribute)) {
+    throw new Error('expected position attribute');
+  }
+
+  const faceCount = indexArray.length / 3;
+  const faces = new Array<number>(faceCount);
+
+  let minU = Infinity,
+    minV = Infinity,
+    maxU = -Infinity,
+    maxV = -Infinity;
+
+  for (let faceIndex = 0; faceIndex < faceCount; faceIndex += 1) {
+    faces[faceIndex] = faceIndex;
+
+    for (let corner = 0; corner < 3; corner += 1) {
+      const vertexIndex = indexArray[faceIndex * 3 + corner];
+      minU = Math.min(minU, uv2Attr.getX(vertexIndex));
+      minV = Math.min(minV, uv2Attr.getY(vertexIndex));
+      maxU = Math.max(maxU, uv2Attr.getX(vertexIndex));
+      maxV = Math.max(maxV, uv2Attr.getY(vertexIndex));
+    }
+  }
+
+  const { worldArea, uvArea } = getLayoutAreas(buffer, matrixWorld, uv2Attr);
+  const unitScale = uvArea > 0 ? Math.sqrt(worldArea / uvArea) : 1;
+
+  const faceUVs = new Array<number>(faceCount * 6);
+  for (
+    let faceVertexIndex = 0;
+    faceVertexIndex < faceCount * 3;
+    faceVertexIndex += 1
+  ) {
+    const vertexIndex = indexArray[faceVertexIndex];
+    faceUVs[faceVertexIndex * 2] =
+      (uv2Attr.getX(vertexIndex) - minU) * unitScale;
+    faceUVs[faceVertexIndex * 2 + 1] =
+      (uv2Attr.getY(vertexIndex) - minV) * unitScale;
+  }
+
+  return {
+    buffer,
+    faces,
+    faceUVs,
+    width: (maxU - minU) * unitScale,
+    height: (maxV - minV) * unitScale,
+    lightmapScale,
+    authoredLayout: {
+      uv2Attr,
+      minU,
+      minV,
+      unitScale
+    }
+  };
+}
+
+// atlas page occupancy on the layout grid
+interface LayoutPage {
+  coverage: Uint8Array; // exact, to check if layouts overlap
+  occupancy: Uint8Array; // conservative, to pack charts around layouts
+  occupancySums: Int32Array | null; // summed-area table, built on demand
+}
+
+function createLayoutPage(): LayoutPage {
+  return {
+    coverage: new Uint8Array(LAYOUT_GRID_SIZE * LAYOUT_GRID_SIZE),
+    occupancy: new Uint8Array(LAYOUT_GRID_SIZE * LAYOUT_GRID_SIZE),
+    occupancySums: null
+  };
+}
+
+function getLayoutUV2(buffer: THREE.BufferGeometry) {
+  const uv2Attr = buffer.attributes.uv2;
+
+  if (uv2Attr && !(uv2Attr instanceof THREE.BufferAttribute)) {
+    throw new Error('expected plain uv2 attribute');
+  }
+
+  return uv2Attr || null;
+}
+
+// mark grid cells whose centres are strictly inside layout faces
+function getLayoutCoverage(
+  buffer: THREE.BufferGeometry,
+  uv2Attr: THREE.BufferAttribute
+): Uint8Array {
+  const indexArray = getBufferFaceIndexArray(buffer);
+  const coverage = new Uint8Array(LAYOUT_GRID_SIZE * LAYOUT_GRID_SIZE);
+
+  for (
+    let faceVertexBase = 0;
+    faceVertexBase < indexArray.length;
+    faceVertexBase += 3
+  ) {
+    const vertexA = indexArray[faceVertexBase];
+    const vertexB = indexArray[faceVertexBase + 1];
+    const vertexC = indexArray[faceVertexBase + 2];
+    const ax = uv2Attr.getX(vertexA) * LAYOUT_GRID_SIZE;
+    const ay = uv2Attr.getY(vertexA) * LAYOUT_GRID_SIZE;
+    const bx = uv2Attr.getX(vertexB) * LAYOUT_GRID_SIZE;
+    const by = uv2Attr.getY(vertexB) * LAYOUT_GRID_SIZE;
+    const cx = uv2Attr.getX(vertexC) * LAYOUT_GRID_SIZE;
+    const cy = uv2Attr.getY(vertexC) * LAYOUT_GRID_SIZE;
+
+    // UVs might have arbitrary winding
+    const area = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+    if (area === 0) {
+      continue;
+    }
+
+    const sign = area > 0 ? 1 : -1;
+
+    const minX = Math.max(0, Math.floor(Math.min(ax, bx, cx) - 0.5));
+    const minY = Math.max(0, Math.floor(Math.min(ay, by, cy) - 0.5));
+    const maxX = Math.min(
+      LAYOUT_GRID_SIZE - 1,
+      Math.ceil(Math.max(ax, bx, cx) - 0.5)
+    );
+    const maxY = Math.min(
+      LAYOUT_GRID_SIZE - 1,
+      Math.ceil(Math.max(ay, by, cy) - 0.5)
+    );
+
+    for (let y = minY; y <= maxY; y += 1) {
+      const py = y + 0.5;
+
+      for (let x = minX; x <= maxX; x += 1) {
+        const px = x + 0.5;
+
+        const edgeA = ((bx - ax) * (py - ay) - (by - ay) * (px - ax)) * sign;
+        const edgeB = ((cx - bx) * (py - by) - (cy - by) * (px - bx)) * sign;
+        const edgeC = ((ax - cx) * (py - cy) - (ay - cy) * (px - cx)) * sign;
+
+        if (edgeA > 0 && edgeB > 0 && edgeC > 0) {
+          coverage[y * LAYOUT_GRID_SIZE + x] = 1;
+        }
+      }
+    }
+  }
+
+  return coverage;
+}
+
+// first page (within given count) that is clear of given layout coverage,
+// otherwise the one with least overlap
+function findLayoutPage(
+  pages: LayoutPage[],
+  pageCount: number,
+  coverage: Uint8Array
+): number {
+  let bestPageIndex = 0;
+  let bestOverlap = Infinity;
+
+  for (
+    let pageIndex = 0;
+    pageIndex < Math.min(pageCount, pages.length);
+    pageIndex += 1
+  ) {
+    const pageCoverage = pages[pageIndex].coverage;
+
+    let overlap = 0;
+    for (let cellIndex = 0; cellIndex < coverage.length; cellIndex += 1) {
+      overlap += coverage[cellIndex] & pageCoverage[cellIndex];
+    }
+
+    if (overlap < bestOverlap) {
+      bestPageIndex = pageIndex;
+      bestOverlap = overlap;
+    }
+
+    if (overlap === 0) {
+      break;
+    }
+  }
+
+  return bestPageIndex;
+}
+
+// take up page space with an existing layout
+function addFixedLayout(
+  page: LayoutPage,
+  buffer: THREE.BufferGeometry,
+  uv2Attr: THREE.BufferAttribute,
+  coverage: Uint8Array,
+  padding: number
+) {
+  for (let cellIndex = 0; cellIndex < coverage.length; cellIndex += 1) {
+    page.coverage[cellIndex] |= coverage[cellIndex];
+  }
+
+  markLayoutOccupancy(page, buffer, uv2Attr, padding);
+}
+
+// mark existing uv2 layout as taken (padded bounds of each face, so it is conservative)
+function markLayoutOccupancy(
+  page: LayoutPage,
+  buffer: THREE.BufferGeometry,
+  uv2Attr: THREE.BufferAttribute,
+  padding: number
+) {
+  const indexArray = getBufferFaceIndexArray(buffer);
+  const { occupancy } = page;
+
+  for (
+    let faceVertexBase = 0;
+    faceVertexBase < indexArray.length;
+    faceVertexBase += 3
+  ) {
+    let minU = Infinity,
+      minV = Infinity,
+      maxU = -Infinity,
+      maxV = -Infinity;
+
+    for (let corner = 0; corner < 3; corner += 1) {
+      const vertexIndex = indexArray[faceVertexBase + corner];
+      minU = Math.min(minU, uv2Attr.getX(vertexIndex));
+      minV = Math.min(minV, uv2Attr.getY(vertexIndex));
+      maxU = Math.max(maxU, uv2Attr.getX(vertexIndex));
+      maxV = Math.max(maxV, uv2Attr.getY(vertexIndex));
+    }
+
+    const minX = Math.max(0, Math.floor((minU - padding) * LAYOUT_GRID_SIZE));
+    const minY = Math.max(0, Math.floor((minV - padding) * LAYOUT_GRID_SIZE));
+    const maxX = Math.min(
+      LAYOUT_GRID_SIZE,
+      Math.ceil((maxU + padding) * LAYOUT_GRID_SIZE)
+    );
+    const maxY = Math.min(
+      LAYOUT_GRID_SIZE,
+      Math.ceil((maxV + padding) * LAYOUT_GRID_SIZE)
+    );
+
+    for (let y = minY; y < maxY; y += 1) {
+      const rowBase = y * LAYOUT_GRID_SIZE;
+      occupancy.fill(1, rowBase + minX, rowBase + maxX);
+    }
+  }
+
+  page.occupancySums = null;
+}
+
+function getOccupancySums(page: LayoutPage): Int32Array {
+  if (!page.occupancySums) {
+    const stride = LAYOUT_GRID_SIZE + 1;
+    const sums = new Int32Array(stride * stride);
+
+    for (let y = 0; y < LAYOUT_GRID_SIZE; y += 1) {
+      let rowSum = 0;
+
+      for (let x = 0; x < LAYOUT_GRID_SIZE; x += 1) {
+        rowSum += page.occupancy[y * LAYOUT_GRID_SIZE + x];
+        sums[(y + 1) * stride + x + 1] = sums[y * stride + x + 1] + rowSum;
+      }
+    }
+
+    page.occupancySums = sums;
+  }
+
+  return page.occupancySums;
+}
+
+function isLayoutRectFree(
+  sums: Int32Array,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) {
+  const stride = LAYOUT_GRID_SIZE + 1;
+  const lowerRow = y * stride;
+  const upperRow = (y + height) * stride;
+
+  return (
+    sums[upperRow + x + width] -
+      sums[lowerRow + x + width] -
+      sums[upperRow + x] +
+      sums[lowerRow + x] ===
+    0
+  );
+}
+
+// shelf packing state within a page (in grid cells)
+interface ShelfState {
+  shelfX: number;
+  shelfY: number;
+  shelfHeight: number;
+}
+
+// place charts on given page around its existing layout,
+// returns false if they do not all fit
+function packChartGroupOnPage(
+  charts: AutoUV2Chart[],
+  group: number[],
+  scale: number,
+  padding: number,
+  page: LayoutPage,
+  pageIndex: number,
+  shelf: ShelfState,
+  placements: AutoUV2ChartPlacement[]
+): boolean {
+  const sums = getOccupancySums(page);
+  const paddingCells = padding * LAYOUT_GRID_SIZE;
+
+  for (const chartIndex of group) {
+    const chart = charts[chartIndex];
+
+    const chartScale = scale * chart.lightmapScale;
+    const rectWidth = Math.max(
+      1,
+      Math.ceil(chart.width * chartScale + paddingCells * 2)
+    );
+    const rectHeight = Math.max(
+      1,
+      Math.ceil(chart.height * chartScale + paddingCells * 2)
+    );
+
+    if (rectWidth > LAYOUT_GRID_SIZE || rectHeight > LAYOUT_GRID_SIZE) {
+      return false;
+    }
+
+    // step along the shelves until clear of existing layout
+    for (;;) {
+      if (shelf.shelfX + rectWidth > LAYOUT_GRID_SIZE) {
+        shelf.shelfX = 0;
+        shelf.shelfY += Math.max(shelf.shelfHeight, 1);
+        shelf.shelfHeight = 0;
+      }
+
+      if (shelf.shelfY + rectHeight > LAYOUT_GRID_SIZE) {
+        return false;
+      }
+
+      if (
+        isLayoutRectFree(
+          sums,
+          shelf.shelfX,
+          shelf.shelfY,
+          rectWidth,
+          rectHeight
+        )
+      ) {
+        break;
+      }
+
+      shelf.shelfX += 1;
+    }
+
+    placements[chartIndex] = {
+      pageIndex,
+      x: (shelf.shelfX + paddingCells) / LAYOUT_GRID_SIZE,
+      y: (shelf.shelfY + paddingCells) / LAYOUT_GRID_SIZE,
+      scale: chartScale / LAYOUT_GRID_SIZE
+    };
+
+    shelf.shelfX += rectWidth;
+    shelf.shelfHeight = Math.max(shelf.shelfHeight, rectHeight);
+  }
+
+  return true;
+}
+
+// shelf packing at a fixed scale (grid cells per world unit),
+// returns null if charts do not fit;
+// charts of the same group (geometry) always end up on the same page
+function packChartsAtScale(
+  charts: AutoUV2Chart[],
+  groups: number[][],
+  scale: number,
+  pages: LayoutPage[],
+  padding: number
+): AutoUV2ChartPlacement[] | null {
+  const placements = new Array<AutoUV2ChartPlacement>(charts.length);
+
+  const shelves: ShelfState[] = pages.map(() => ({
+    shelfX: 0,
+    shelfY: 0,
+    shelfHeight: 0
+  }));
+
+  for (const group of groups) {
+    // first page with enough room wins
+    const pageIndex = pages.findIndex((page, pageIndex) => {
+      const savedShelf = { ...shelves[pageIndex] };
+
+      if (
+        packChartGroupOnPage(
+          charts,
+          group,
+          scale,
+          padding,
+          page,
+          pageIndex,
+          shelves[pageIndex],
+          placements
+        )
+      ) {
+        return true;
+      }
+
+      shelves[pageIndex] = savedShelf;
+      return false;
+    });
+
+    if (pageIndex === -1) {
+      return null;
+    }
+  }
+
+  return placements;
+}
+
+// find the largest uniform scale at which all charts fit in the given pages,
+// starting from the base scale if there is one
+function packChartsAtLargestScale(
+  charts: AutoUV2Chart[],
+  groups: number[][],
+  pages: LayoutPage[],
+  padding: number,
+  baseScale: number | null
+): AutoUV2ChartPlacement[] | null {
+  const totalArea = charts.reduce(
+    (area, chart) =>
+      area +
+      Math.max(chart.width * chart.height, 1e-6) * chart.lightmapScale ** 2,
+    0
+  );
+
+  const freeArea = pages.reduce(
+    (area, page) =>
+      area +
+      LAYOUT_GRID_SIZE * LAYOUT_GRID_SIZE -
+      getOccupancySums(page)[(LAYOUT_GRID_SIZE + 1) ** 2 - 1],
+    0
+  );
+
+  let scale =
+    baseScale === null
+      ? Math.sqrt((freeArea * PACKING_TARGET_FILL) / totalArea)
+      : baseScale * LAYOUT_GRID_SIZE;
+
+  for (let attempt = 0; attempt < PACKING_MAX_ATTEMPTS; attempt += 1) {
+    const placements = packChartsAtScale(charts, groups, scale, pages, padding);
+
+    if (placements) {
+      return placements;
+    }
+
+    scale *= PACKING_SHRINK_FACTOR;
+  }
+
+  return null;
+}
+
+// lay out charts in the free space of given pages (with padding in UV units);
+// each chart is further scaled by its own lightmap scale relative to base scale
+// (in UV units per world unit, shrunk if needed to fit)
+// and if nothing fits around existing layout it is an error, since the page count
+// is a budget set by the caller
+function packAutoUV2Charts(
+  charts: AutoUV2Chart[],
+  pages: LayoutPage[],
+  padding: number,
+  baseScale: number | null
+): AutoUV2ChartPlacement[] {
+  // group charts by geometry, tallest charts first for tighter shelves
+  const buffers: THREE.BufferGeometry[] = [];
+  const groups: number[][] = [];
+
+  charts.forEach((chart, chartIndex) => {
+    const groupIndex = buffers.indexOf(chart.buffer);
+
+    if (groupIndex === -1) {
+      buffers.push(chart.buffer);
+      groups.push([chartIndex]);
+    } else {
+      groups[groupIndex].push(chartIndex);
+    }
+  });
+
+  for (const group of groups) {
+    group.sort(
+      (a, b) =>
+        charts[b].height * charts[b].lightmapScale -
+        charts[a].height * charts[a].lightmapScale
+    );
+  }
+
+  const placements = packChartsAtLargestScale(
+    charts,
+    groups,
+    pages,
+    padding,
+    baseScale
+  );
+  if (!placements) {
+    throw new Error('could not fit lightmap UV charts into atlas page budget');
+  }
+
+  return placements;
+}
+
+// plain copy of given source vertices, keeping the original array type
+// (so that e.g. normalized integer colours keep their meaning);
+// interleaved data (e.g. from glTF) is split out into its own array
+function copyVertexAttribute(
+  attr: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+  sourceVertices: ArrayLike<number>
+): THREE.BufferAttribute {
+  const { itemSize, normalized } = attr;
+  const [sourceArray, stride, offset] =
+    attr instanceof THREE.InterleavedBufferAttribute
+      ? [attr.data.array, attr.data.stride, attr.offset]
+      : [attr.array, itemSize, 0];
+
+  const ArrayType = sourceArray.constructor as new (
+    length: number
+  ) => THREE.TypedArray;
+  const array = new ArrayType(sourceVertices.length * itemSize);
+
+  for (let newVertex = 0; newVertex < sourceVertices.length; newVertex += 1) {
+    const sourceBase = sourceVertices[newVertex] * stride + offset;
+
+    for (let component = 0; component < itemSize; component += 1) {
+      array[newVertex * itemSize + component] =
+        sourceArray[sourceBase + component];
+    }
+  }
+
+  return new THREE.BufferAttribute(array, itemSize, normalized);
+}
+
+// unwrapping reads plain attribute arrays
+function deinterleaveAttributes(buffer: THREE.BufferGeometry) {
+  for (const name of Object.keys(buffer.attributes)) {
+    const attr = buffer.attributes[name];
+
+    if (attr instanceof THREE.InterleavedBufferAttribute) {
+      const vertices = Array.from({ length: attr.count }, (_, index) => index);
+      buffer.setAttribute(name, copyVertexAttribute(attr, vertices));
+    }
+  }
+}
+
+// re-create buffer vertices per chart and fill in the uv2 attribute
+export function applyAutoUV2Charts(
+  buffer: THREE.BufferGeometry,
+  charts: AutoUV2Chart[],
+  placements: AutoUV2ChartPlacement[]
+) {
+  const indexArray = getBufferFaceIndexArray(buffer);
+
+  // authored layout is moved and scaled in place, keeping its vertices as is
+  const authoredChartIndex = charts.findIndex(
+    (chart) => chart.buffer === buffer && chart.authoredLayout
+  );
+
+  if (authoredChartIndex !== -1) {
+    const { x, y, scale } = placements[authoredChartIndex];
+    const { uv2Attr, minU, minV, unitScale } = charts[authoredChartIndex]
+      .authoredLayout as AutoUV2AuthoredLayout;
+
+    const newUV2Attr = new THREE.Float32BufferAttribute(uv2Attr.count * 2, 2);
+    for (let vertexIndex = 0; vertexIndex < uv2Attr.count; vertexIndex += 1) {
+      newUV2Attr.setXY(
+        vertexIndex,
+        x + (uv2Attr.getX(vertexIndex) - minU) * unitScale * scale,
+        y + (uv2Attr.getY(vertexIndex) - minV) * unitScale * scale
+      );
+    }
+
+    buffer.setAttribute('uv2', newUV2Attr);
+    return;
+  }
+
+  // original vertex index for each new vertex
+  const sourceVertices: number[] = [];
+  const uv2Values: number[] = [];
+  const newIndexArray = new Array<number>(indexArray.length);
+
+  charts.forEach((chart, chartIndex) => {
+    if (chart.buffer !== buffer) {
+      return;
+    }
+
+    const { x, y, scale } = placements[chartIndex];
+
+    // vertices are shared inside the chart but split along chart borders
+    const chartVertexMap = new Map<number, number>();
+
+    chart.faces.forEach((faceIndex, chartFaceIndex) => {
+      for (let corner = 0; corner < 3; corner += 1) {
+        const faceVertexIndex = faceIndex * 3 + corner;
+        const sourceVertex = indexArray[faceVertexIndex];
+
+        let newVertex = chartVertexMap.get(sourceVertex);
+        if (newVertex === undefined) {
+          newVertex = sourceVertices.length;
+          chartVertexMap.set(sourceVertex, newVertex);
+          sourceVertices.push(sourceVertex);
+
+          const uvBase = (chartFaceIndex * 3 + corner) * 2;
+          uv2Values.push(
+            x + chart.faceUVs[uvBase] * scale,
+            y + chart.faceUVs[uvBase + 1] * scale
+          );
+        }
+
+        newIndexArray[faceVertexIndex] = newVertex;
+      }
+    });
+  });
+
+  // copy over all existing vertex data, morph targets included
+  for (const name of Object.keys(buffer.attributes)) {
+    buffer.setAttribute(
+      name,
+      copyVertexAttribute(buffer.attributes[name], sourceVertices)
+    );
+  }
+
+  for (const name of Object.keys(buffer.morphAttributes)) {
+    buffer.morphAttributes[name] = buffer.morphAttributes[name].map((attr) =>
+      copyVertexAttribute(attr, sourceVertices)
+    );
+  }
+
+  buffer.setAttribute('uv2', new THREE.Float32BufferAttribute(uv2Values, 2));
+  buffer.setIndex(newIndexArray);
+}
+
+// unwrap given geometries (or take their authored layout as a whole)
+// and lay them out in the space left free by authored layouts
+// (padding is in UV units); returns page index for each item;
+// generated layout is stored on the geometry and then reused as is
+// (e.g. by other atlas mappers with a different resolution)
+export function computeAutoUV2(
+  items: AutoUV2Item[],
+  pageCount: number,
+  padding: number
+): number[] {
+  const pages: LayoutPage[] = [createLayoutPage()];
+  while (pages.length < pageCount) {
+    pages.push(createLayoutPage());
+  }
+
+  // previously generated layouts stay on their page
+  // (geometry shared between meshes is only handled once)
+  const fixedBuffers: THREE.BufferGeometry[] = [];
+  const fixedPages: number[] = [];
+
+  // texel density of fixed layouts (at lightmap scale 1) becomes the baseline
+  // for the rest, so that lightmap scale is relative across the whole atlas
+  let baseWorldArea = 0;
+  let baseUVArea = 0;
+
+  for (const { buffer, matrixWorld } of items) {
+    const layout: AutoUV2Layout | undefined = buffer.userData.autoUV2Layout;
+    const uv2Attr = getLayoutUV2(buffer);
+
+    if (!layout || !uv2Attr || fixedBuffers.indexOf(buffer) !== -1) {
+      continue;
+    }
+
+    // e.g. generated by another atlas mapper with more pages
+    if (layout.pageIndex >= pageCount) {
+      throw new Error('stored lightmap UV layout is past atlas page budget');
+    }
+
+    addFixedLayout(
+      pages[layout.pageIndex],
+      buffer,
+      uv2Attr,
+      getLayoutCoverage(buffer, uv2Attr),
+      padding
+    );
+
+    fixedBuffers.push(buffer);
+    fixedPages.push(layout.pageIndex);
+
+    const { worldArea, uvArea } = getLayoutAreas(buffer, matrixWorld, uv2Attr);
+    baseWorldArea += worldArea;
+    baseUVArea += uvArea / layout.lightmapScale ** 2;
+  }
+
+  // authored layouts go on the first page where they do not overlap anything
+  // (so separate 0..1 layouts get separate pages, within the page budget)
+  for (const { buffer, matrixWorld, lightmapScale } of items) {
+    const uv2Attr = getLayoutUV2(buffer);
+
+    if (
+      !uv2Attr ||
+      lightmapScale !== null ||
+      fixedBuffers.indexOf(buffer) !== -1
+    ) {
+      continue;
+    }
+
+    const coverage = getLayoutCoverage(buffer, uv2Attr);
+    const pageIndex = findLayoutPage(pages, pageCount, coverage);
+
+    addFixedLayout(pages[pageIndex], buffer, uv2Attr, coverage, padding);
+
+    fixedBuffers.push(buffer);
+    fixedPages.push(pageIndex);
+
+    const { worldArea, uvArea } = getLayoutAreas(buffer, matrixWorld, uv2Attr);
+    baseWorldArea += worldArea;
+    baseUVArea += uvArea;
+  }
+
+  // the rest is unwrapped and packed around fixed layouts
+  const buffers: THREE.BufferGeometry[] = [];
+  const charts: AutoUV2Chart[] = [];
+
+  for (const { buffer, matrixWorld, lightmapScale } of items) {
+    if (fixedBuffers.indexOf(buffer) !== -1 || buffers.indexOf(buffer) !== -1) {
+      continue;
+    }
+
+    buffers.push(buffer);
+    deinterleaveAttributes(buffer);
+
+    const uv2Attr = getLayoutUV2(buffer);
+    const chartScale = lightmapScale === null ? 1 : lightmapScale;
+
+    if (uv2Attr) {
+      charts.push(
+        createAuthoredUV2Chart(buffer, matrixWorld, chartScale, uv2Attr)
+      );
+    } else {
+      charts.push(...createAutoUV2Charts(buffer, matrixWorld, chartScale));
+    }
+  }
+
+  if (charts.length > 0) {
+    const placements = packAutoUV2Charts(
+      charts,
+      pages,
+      padding,
+      baseWorldArea > 0 && baseUVArea > 0
+        ? Math.sqrt(baseUVArea / baseWorldArea)
+        : null
+    );
+
+    // all charts of a geometry are on the same page
+    for (const buffer of buffers) {
+      applyAutoUV2Charts(buffer, charts, placements);
+
+      const chartIndex = charts.findIndex((chart) => chart.buffer === buffer);
+      const layout: AutoUV2Layout = {
+        pageIndex: placements[chartIndex].pageIndex,
+        lightmapScale: charts[chartIndex].lightmapScale
+      };
+      buffer.userData.autoUV2Layout = layout;
+    }
+  }
+
+  return items.map(({ buffer }) => {
+    const fixedIndex = fixedBuffers.indexOf(buffer);
+    return fixedIndex === -1
+      ? (buffer.userData.autoUV2Layout as AutoUV2Layout).pageIndex
+      : fixedPages[fixedIndex];
+  });
+}
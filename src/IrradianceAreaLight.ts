@@ -0,0 +1,143 @@
+import * as THREE from 'three';
+
+import {
+  decodeAtlasMapTexel,
+  getAtlasFacePoint,
+  AtlasMap,
+  AtlasMapTexel
+} from './IrradianceAtlasMapper';
+
+// distance to lift shadow ray origin off the surface to avoid self-hits
+const SHADOW_RAY_OFFSET = 0.001;
+
+// temp objects for computation
+const tmpTexel: AtlasMapTexel = {
+  itemIndex: 0,
+  faceIndex: 0,
+  faceU: 0,
+  faceV: 0
+};
+const tmpNormalMatrix = new THREE.Matrix3();
+const tmpLightNormal = new THREE.Vector3();
+const tmpSample = new THREE.Vector3();
+const tmpToLight = new THREE.Vector3();
+const tmpRayOrigin = new THREE.Vector3();
+const tmpRaycaster = new THREE.Raycaster();
+
+// stand-in material for shadow ray tests
+const occluderMaterial = new THREE.MeshBasicMaterial({
+  side: THREE.DoubleSide
+});
+
+// raycast override for light scene meshes: shadow rays are blocked by either side
+// of a surface, regardless of which side the display material renders
+export function raycastOccluder(
+  this: THREE.Mesh,
+  raycaster: THREE.Raycaster,
+  intersects: THREE.Intersection[]
+) {
+  const { material } = this;
+
+  this.material = occluderMaterial;
+  THREE.Mesh.prototype.raycast.call(this, raycaster, intersects);
+  this.material = material;
+}
+
+// world-space surface point and face normal at the texel's sampling position,
+// using the mesh transform as posed in the light scene (e.g. at baked animation time);
+// returns false if texel is blank
+export function getTexelWorldPoint(
+  atlasMap: AtlasMap,
+  pageTexelIndex: number,
+  posedMeshes: Map<THREE.Mesh, THREE.Object3D>,
+  position: THREE.Vector3,
+  normal: THREE.Vector3
+): boolean {
+  if (!decodeAtlasMapTexel(atlasMap.data, pageTexelIndex, tmpTexel)) {
+    return false;
+  }
+
+  const { itemIndex, faceIndex, faceU, faceV } = tmpTexel;
+  const atlasMapItem = atlasMap.items[itemIndex];
+  const { faceBuffer, originalMesh } = atlasMapItem;
+
+  const posedMesh = posedMeshes.get(originalMesh);
+  if (!posedMesh) {
+    throw new Error('mesh is missing from light scene');
+  }
+
+  getAtlasFacePoint(atlasMapItem, faceIndex, faceU, faceV, position);
+  position.applyMatrix4(posedMesh.matrixWorld);
+
+  // face normal is stored on the first vertex of the face
+  normal.fromArray(faceBuffer.attributes.normal.array, faceIndex * 9);
+  tmpNormalMatrix.getNormalMatrix(posedMesh.matrixWorld);
+  normal.applyMatrix3(tmpNormalMatrix).normalize();
+
+  return true;
+}
+
+// add direct light from rectangular area lights at given surface point
+// (in lightmap units, i.e. irradiance divided by PI); each light surface is sampled
+// on a regular grid with a shadow ray per sample, which gives soft shadows
+export function addAreaLightIrradiance(
+  rgba: number[],
+  areaLights: THREE.RectAreaLight[],
+  position: THREE.Vector3,
+  normal: THREE.Vector3,
+  occluders: THREE.Object3D,
+  sampleGridSize: number
+) {
+  tmpRayOrigin.copy(position).addScaledVector(normal, SHADOW_RAY_OFFSET);
+
+  for (const light of areaLights) {
+    // light shines along its local -Z axis
+    tmpNormalMatrix.getNormalMatrix(light.matrixWorld);
+    tmpLightNormal.set(0, 0, -1).applyMatrix3(tmpNormalMatrix).normalize();
+
+    const sampleArea =
+      (light.width * light.height) / (sampleGridSize * sampleGridSize);
+
+    let formFactor = 0;
+
+    for (let sy = 0; sy < sampleGridSize; sy += 1) {
+      for (let sx = 0; sx < sampleGridSize; sx += 1) {
+        tmpSample.set(
+          ((sx + 0.5) / sampleGridSize - 0.5) * light.width,
+          ((sy + 0.5) / sampleGridSize - 0.5) * light.height,
+          0
+        );
+        tmpSample.applyMatrix4(light.matrixWorld);
+
+        tmpToLight.subVectors(tmpSample, tmpRayOrigin);
+        const distance = tmpToLight.length();
+        if (distance <= SHADOW_RAY_OFFSET) {
+          continue;
+        }
+
+        tmpToLight.divideScalar(distance);
+
+        // both the receiver and emitter must face each other
+        const receiverCos = normal.dot(tmpToLight);
+        const emitterCos = -tmpLightNormal.dot(tmpToLight);
+        if (receiverCos <= 0 || emitterCos <= 0) {
+          continue;
+        }
+
+        tmpRaycaster.set(tmpRayOrigin, tmpToLight);
+        tmpRaycaster.far = distance - SHADOW_RAY_OFFSET;
+        if (tmpRaycaster.intersectObject(occluders, true).length > 0) {
+          continue;
+        }
+
+        formFactor +=
+          (receiverCos * emitterCos * sampleArea) / (distance * distance);
+      }
+    }
+
+    const radiance = light.intensity / Math.PI;
+    rgba[0] += light.color.r * radiance * formFactor;
+    rgba[1] += light.color.g * radiance * formFactor;
+    rgba[2] += light.color.b * radiance * formFactor;
+  }
+}
@@ -0,0 +1,152 @@
+import * as THREE from 'three';
+
+import {
+  encodeAtlasMapTexel,
+  decodeAtlasMapTexel,
+  createAtlasMapItem,
+  getAtlasFacePoint,
+  AtlasMapTexel
+} from './IrradianceAtlasMapper';
+import { getBufferFaceIndexArray } from './IrradianceSurfaceManager';
+
+function createTexel(): AtlasMapTexel {
+  return { itemIndex: -1, faceIndex: -1, faceU: -1, faceV: -1 };
+}
+
+describe('atlas map texel encoding', () => {
+  it('round-trips item and face indexes', () => {
+    const data = new Float32Array(4 * 4);
+    const cases = [
+      [0, 0],
+      [1001, 1234],
+      [1234567, 7654321],
+      [2 ** 24 - 2, 2 ** 24 - 2] // largest index that stays exact in float32
+    ];
+
+    cases.forEach(([itemIndex, faceIndex], texelIndex) => {
+      encodeAtlasMapTexel(data, texelIndex, itemIndex, faceIndex, 0.25, 0.75);
+    });
+
+    cases.forEach(([itemIndex, faceIndex], texelIndex) => {
+      const texel = createTexel();
+      expect(decodeAtlasMapTexel(data, texelIndex, texel)).toBe(true);
+      expect(texel).toEqual({ itemIndex, faceIndex, faceU: 0.25, faceV: 0.75 });
+    });
+  });
+
+  it('rounds off interpolation noise', () => {
+    const data = new Float32Array(4);
+    encodeAtlasMapTexel(data, 0, 1500, 2500, 0.5, 0.5);
+    data[2] += 0.01;
+    data[3] -= 0.01;
+
+    const texel = createTexel();
+    expect(decodeAtlasMapTexel(data, 0, texel)).toBe(true);
+    expect(texel.itemIndex).toBe(1500);
+    expect(texel.faceIndex).toBe(2500);
+  });
+
+  it('reports blank texels', () => {
+    const data = new Float32Array(4);
+
+    const texel = createTexel();
+    expect(decodeAtlasMapTexel(data, 0, texel)).toBe(false);
+  });
+});
+
+describe('non-indexed geometry', () => {
+  // small grid with lightmap UVs, and its non-indexed copy
+  const indexedBuffer = new THREE.PlaneBufferGeometry(2, 2, 2, 2);
+  indexedBuffer.setAttribute(
+    'uv2',
+    (indexedBuffer.attributes.uv as THREE.BufferAttribute).clone()
+  );
+  const nonIndexedBuffer = indexedBuffer.toNonIndexed();
+
+  const createItem = (buffer: THREE.BufferGeometry) =>
+    createAtlasMapItem(
+      {
+        mesh: new THREE.Mesh(buffer),
+        buffer,
+        material: new THREE.MeshLambertMaterial(),
+        factorName: null,
+        animationClip: null,
+        indexRange: null,
+        lightmapScale: null
+      },
+      0
+    );
+
+  it('resolves to the same face vertices', () => {
+    const getFacePositions = (buffer: THREE.BufferGeometry) =>
+      Array.from(getBufferFaceIndexArray(buffer), (vertexIndex) =>
+        new THREE.Vector3().fromArray(
+          buffer.attributes.position.array,
+          vertexIndex * 3
+        )
+      );
+
+    expect(getFacePositions(nonIndexedBuffer)).toEqual(
+      getFacePositions(indexedBuffer)
+    );
+  });
+
+  it('gives the same atlas item', () => {
+    const getFaceAttributes = (buffer: THREE.BufferGeometry) => {
+      const { faceCount, faceBuffer } = createItem(buffer);
+
+      return {
+        faceCount,
+        position: faceBuffer.attributes.position.array,
+        uv: faceBuffer.attributes.uv.array,
+        normal: faceBuffer.attributes.normal.array
+      };
+    };
+
+    expect(getFaceAttributes(nonIndexedBuffer)).toEqual(
+      getFaceAttributes(indexedBuffer)
+    );
+  });
+
+  it('places light probes at the same face points', () => {
+    const getProbePoints = (buffer: THREE.BufferGeometry) => {
+      const atlasMapItem = createItem(buffer);
+      const points: THREE.Vector3[] = [];
+
+      for (
+        let faceIndex = 0;
+        faceIndex < atlasMapItem.faceCount;
+        faceIndex += 1
+      ) {
+        points.push(
+          getAtlasFacePoint(
+            atlasMapItem,
+            faceIndex,
+            0.25,
+            0.5,
+            new THREE.Vector3()
+          )
+        );
+      }
+
+      return points;
+    };
+
+    const points = getProbePoints(indexedBuffer);
+    expect(points.length).toBe(8);
+    expect(getProbePoints(nonIndexedBuffer)).toEqual(points);
+
+    // point is interpolated from the first face corner along the other two
+    const positionArray = indexedBuffer.attributes.position.array;
+    const [a, b, c] = Array.from(getBufferFaceIndexArray(indexedBuffer))
+      .slice(0, 3)
+      .map((vertexIndex) =>
+        new THREE.Vector3().fromArray(positionArray, vertexIndex * 3)
+      );
+    const expected = a
+      .clone()
+      .addScaledVector(b.clone().sub(a), 0.25)
+      .addScaledVector(c.clone().sub(a), 0.5);
+    expect(points[0].distanceTo(expected)).toBeCloseTo(0);
+  });
+});
@@ -2,211 +2,336 @@ import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { useFrame, useUpdate, useThree } from 'react-three-fiber';
 import * as THREE from 'three';
 
-import { useIrradianceAtlasContext } from './IrradianceSurfaceManager';
+import {
+  useIrradianceAtlasContext,
+  getBufferFaceIndexArray,
+  AtlasSceneItem
+} from './IrradianceSurfaceManager';
+import { computeAutoUV2 } from './AutoUV2';
 
 export interface AtlasMapItem {
   faceCount: number;
+  faceStart: number; // offset into original face list (non-zero for geometry groups)
   faceBuffer: THREE.BufferGeometry;
   originalMesh: THREE.Mesh;
   originalBuffer: THREE.BufferGeometry;
 }
 
 export interface AtlasMap {
+  width: number;
+  height: number;
   items: AtlasMapItem[];
   data: Float32Array;
   texture: THREE.Texture;
 }
 
-export const atlasWidth = 64;
-export const atlasHeight = 64;
+export interface AtlasMapTexel {
+  itemIndex: number;
+  faceIndex: number;
+  faceU: number;
+  faceV: number;
+}
+
+// atlas map texel layout is (faceU, faceV, faceIndex + 1, itemIndex + 1)
+// with all zeroes for blank space; each index gets its own float channel,
+// so there is no per-item face limit (integers are exact up to 2^24)
+export function encodeAtlasMapTexel(
+  data: Float32Array,
+  texelIndex: number,
+  itemIndex: number,
+  faceIndex: number,
+  faceU: number,
+  faceV: number
+) {
+  const texelBase = texelIndex * 4;
+  data[texelBase] = faceU;
+  data[texelBase + 1] = faceV;
+  data[texelBase + 2] = faceIndex + 1;
+  data[texelBase + 3] = itemIndex + 1;
+}
 
-export const MAX_ITEM_FACES = 1000; // used for encoding item+face index in texture
+// returns false if texel is blank, otherwise fills out the result object
+export function decodeAtlasMapTexel(
+  data: Float32Array,
+  texelIndex: number,
+  result: AtlasMapTexel
+): boolean {
+  const texelBase = texelIndex * 4;
+  const faceEnc = data[texelBase + 2];
+  const itemEnc = data[texelBase + 3];
+
+  if (faceEnc === 0 || itemEnc === 0) {
+    return false;
+  }
+
+  // values went through the GPU, so round off any interpolation noise
+  result.itemIndex = Math.round(itemEnc) - 1;
+  result.faceIndex = Math.round(faceEnc) - 1;
+  result.faceU = data[texelBase];
+  result.faceV = data[texelBase + 1];
+
+  return true;
+}
+
+// use consistent "left" and "up" directions based on just the normal
+// (also used by light probes when orienting with interpolated normals)
+export function computeNormalCardinalDirections(
+  normal: THREE.Vector3,
+  uDir: THREE.Vector3,
+  vDir: THREE.Vector3
+) {
+  if (normal.x === 0 && normal.y === 0) {
+    uDir.set(1, 0, 0);
+  } else {
+    uDir.set(0, 0, 1);
+  }
+
+  vDir.crossVectors(normal, uDir);
+  vDir.normalize();
+
+  uDir.crossVectors(normal, vDir);
+  uDir.normalize();
+}
 
 // temp objects for computation
 const tmpNormal = new THREE.Vector3();
 const tmpU = new THREE.Vector3();
 const tmpV = new THREE.Vector3();
 
+// mesh-local surface point at given spot of the item face (see AtlasMapTexel),
+// same interpolation for probe placement and any other per-texel lookups
+export function getAtlasFacePoint(
+  atlasMapItem: AtlasMapItem,
+  faceIndex: number,
+  faceU: number,
+  faceV: number,
+  target: THREE.Vector3
+): THREE.Vector3 {
+  const { faceStart, originalBuffer } = atlasMapItem;
+
+  const indexArray = getBufferFaceIndexArray(originalBuffer);
+  const posArray = originalBuffer.attributes.position.array;
+  const faceVertexBase = (faceStart + faceIndex) * 3;
+
+  target.fromArray(posArray, indexArray[faceVertexBase] * 3);
+  tmpU.fromArray(posArray, indexArray[faceVertexBase + 1] * 3);
+  tmpV.fromArray(posArray, indexArray[faceVertexBase + 2] * 3);
+
+  // interpolate along face U and V axes
+  tmpU.sub(target);
+  tmpV.sub(target);
+  target.addScaledVector(tmpU, faceU);
+  target.addScaledVector(tmpV, faceV);
+
+  return target;
+}
+
+// convert scene item into atlas face geometry (item index is local to its page)
+export function createAtlasMapItem(
+  item: AtlasSceneItem,
+  itemIndex: number
+): AtlasMapItem {
+  const { mesh, buffer, indexRange } = item;
+
+  if (!(buffer instanceof THREE.BufferGeometry)) {
+    throw new Error('expected buffer geometry');
+  }
+
+  const indexData = getBufferFaceIndexArray(buffer);
+
+  // only map this item's geometry group, if any
+  const faceVertexStart = indexRange ? indexRange.start : 0;
+  const faceVertexCount = indexRange ? indexRange.count : indexData.length;
+  const uv2Attr = buffer.attributes.uv2;
+  const normalAttr = buffer.attributes.normal;
+
+  if (!uv2Attr || !(uv2Attr instanceof THREE.BufferAttribute)) {
+    throw new Error('expected uv2 attribute');
+  }
+
+  if (!normalAttr || !(normalAttr instanceof THREE.BufferAttribute)) {
+    throw new Error('expected normal attribute');
+  }
+
+  const atlasUVAttr = new THREE.Float32BufferAttribute(faceVertexCount * 2, 2);
+  const atlasNormalAttr = new THREE.Float32BufferAttribute(
+    faceVertexCount * 3,
+    3
+  );
+  const atlasFacePosAttr = new THREE.Float32BufferAttribute(
+    faceVertexCount * 3,
+    3
+  );
+  const atlasItemIndexAttr = new THREE.Float32BufferAttribute(
+    new Float32Array(faceVertexCount).fill(itemIndex),
+    1
+  );
+
+  for (
+    let faceVertexIndex = 0;
+    faceVertexIndex < faceVertexCount;
+    faceVertexIndex += 1
+  ) {
+    const faceMod = faceVertexIndex % 3;
+
+    const originalVertex = indexData[faceVertexStart + faceVertexIndex];
+
+    atlasUVAttr.copyAt(faceVertexIndex, uv2Attr, originalVertex);
+
+    // store normal and compute cardinal directions for later
+    if (faceMod === 0) {
+      // source data should specify normals correctly (since winding order is unknown)
+      atlasNormalAttr.copyAt(faceVertexIndex, normalAttr, originalVertex);
+
+      tmpNormal.fromArray(atlasNormalAttr.array, faceVertexIndex * 3);
+
+      computeNormalCardinalDirections(tmpNormal, tmpU, tmpV);
+
+      atlasNormalAttr.setXYZ(faceVertexIndex + 1, tmpU.x, tmpU.y, tmpU.z);
+      atlasNormalAttr.setXYZ(faceVertexIndex + 2, tmpV.x, tmpV.y, tmpV.z);
+    }
+
+    // positioning in face
+    const facePosX = faceMod & 1;
+    const facePosY = (faceMod & 2) >> 1;
+
+    // face index goes alongside (item index is a separate attribute)
+    const faceIndex = (faceVertexIndex - faceMod) / 3;
+
+    atlasFacePosAttr.setXYZ(faceVertexIndex, facePosX, facePosY, faceIndex);
+  }
+
+  const atlasBuffer = new THREE.BufferGeometry();
+  atlasBuffer.setAttribute('position', atlasFacePosAttr);
+  atlasBuffer.setAttribute('uv', atlasUVAttr);
+  atlasBuffer.setAttribute('normal', atlasNormalAttr);
+  atlasBuffer.setAttribute('itemIndex', atlasItemIndexAttr);
+
+  return {
+    faceCount: faceVertexCount / 3,
+    faceStart: faceVertexStart / 3,
+    faceBuffer: atlasBuffer,
+    originalMesh: mesh,
+    originalBuffer: buffer
+  };
+}
+
 // write out original face geometry info into the atlas map
-// each texel corresponds to: (quadX, quadY, quadIndex)
+// each texel corresponds to: (quadX, quadY, faceIndex, itemIndex)
 // where quadX and quadY are 0..1 representing a spot in the original quad
-// and quadIndex is 1-based to distinguish from blank space
+// and indexes are 1-based to distinguish from blank space
 // which allows to find original 3D position/normal/etc for that texel
-// (quad index is int stored as float, but precision should be good enough)
+// (see encodeAtlasMapTexel for exact layout)
 // @todo consider stencil buffer, or just 8bit texture
 // @todo consider rounding to account for texel size
 // @todo provide output via context
+// meshes without a uv2 attribute get it generated and packed automatically
+// into the space around authored layouts (chart padding is in texels)
+// and may spill over into extra pages up to the budget (it is an error if nothing fits);
+// meshes with a lightmap scale get their authored uv2 re-packed the same way
+// (the scale is relative to the texel density of the authored layouts, if any);
+// authored layouts that overlap each other are given separate pages up to the budget
 const IrradianceAtlasMapper: React.FC<{
-  children: (atlasMap: AtlasMap | null) => React.ReactElement | null;
-}> = ({ children }) => {
+  width: number;
+  height: number;
+  chartPadding?: number;
+  maxPages?: number;
+  children: (atlasMaps: AtlasMap[] | null) => React.ReactElement | null;
+}> = ({ width, height, chartPadding = 2, maxPages = 1, children }) => {
   const atlas = useIrradianceAtlasContext();
 
   // wait until next render to queue up data to render into atlas texture
-  const [inputItems, setInputItems] = useState<AtlasMapItem[] | null>(null);
+  const [inputPages, setInputPages] = useState<AtlasMapItem[][] | null>(null);
 
   // set when render is complete
-  const [atlasMap, setAtlasMap] = useState<AtlasMap | null>(null);
+  const [atlasMaps, setAtlasMaps] = useState<AtlasMap[] | null>(null);
 
   useEffect(() => {
-    // disposed during scene unmount
-    setInputItems(
-      atlas.lightSceneItems
-        .filter((item) => !!item.albedoMap)
-        .map((item, itemIndex) => {
-          const { mesh, buffer } = item;
-
-          if (!(buffer instanceof THREE.BufferGeometry)) {
-            throw new Error('expected buffer geometry');
-          }
+    const lightMappedItems = atlas.lightSceneItems.filter(
+      (item) => !!item.material.map
+    );
 
-          const indexAttr = buffer.index;
-          if (!indexAttr) {
-            throw new Error('expected face index array');
-          }
+    // generate lightmap UVs where they were not authored, and re-pack authored
+    // layouts that need a specific lightmap scale, all around the rest of authored layout
+    // (this is only done once per geometry, so other mappers share the same layout)
+    const itemPages = computeAutoUV2(
+      lightMappedItems.map(({ mesh, buffer, lightmapScale }) => {
+        if (!(buffer instanceof THREE.BufferGeometry)) {
+          throw new Error('expected buffer geometry');
+        }
 
-          const faceVertexCount = indexAttr.count;
-          const uv2Attr = buffer.attributes.uv2;
-          const normalAttr = buffer.attributes.normal;
+        mesh.updateWorldMatrix(true, false);
 
-          if (!uv2Attr || !(uv2Attr instanceof THREE.BufferAttribute)) {
-            throw new Error('expected uv2 attribute');
-          }
+        return { buffer, matrixWorld: mesh.matrixWorld, lightmapScale };
+      }),
+      maxPages,
+      chartPadding / Math.min(width, height)
+    );
 
-          if (!normalAttr || !(normalAttr instanceof THREE.BufferAttribute)) {
-            throw new Error('expected normal attribute');
-          }
+    // group items by page (always at least one page)
+    const pages: AtlasMapItem[][] = [[]];
+    lightMappedItems.forEach((item, itemIndex) => {
+      const pageIndex = itemPages[itemIndex];
 
-          const atlasUVAttr = new THREE.Float32BufferAttribute(
-            faceVertexCount * 2,
-            2
-          );
-          const atlasNormalAttr = new THREE.Float32BufferAttribute(
-            faceVertexCount * 3,
-            3
-          );
-          const atlasFacePosAttr = new THREE.Float32BufferAttribute(
-            faceVertexCount * 3,
-            3
-          );
-
-          const indexData = indexAttr.array;
-          for (
-            let faceVertexIndex = 0;
-            faceVertexIndex < faceVertexCount;
-            faceVertexIndex += 1
-          ) {
-            const faceMod = faceVertexIndex % 3;
-
-            atlasUVAttr.copyAt(
-              faceVertexIndex,
-              uv2Attr,
-              indexData[faceVertexIndex]
-            );
+      while (pages.length <= pageIndex) {
+        pages.push([]);
+      }
 
-            // store normal and compute cardinal directions for later
-            if (faceMod === 0) {
-              // source data should specify normals correctly (since winding order is unknown)
-              atlasNormalAttr.copyAt(
-                faceVertexIndex,
-                normalAttr,
-                indexData[faceVertexIndex]
-              );
-
-              tmpNormal.fromArray(atlasNormalAttr.array, faceVertexIndex * 3);
-
-              // use consistent "left" and "up" directions based on just the normal
-              if (tmpNormal.x === 0 && tmpNormal.y === 0) {
-                tmpU.set(1, 0, 0);
-              } else {
-                tmpU.set(0, 0, 1);
-              }
-
-              tmpV.crossVectors(tmpNormal, tmpU);
-              tmpV.normalize();
-
-              tmpU.crossVectors(tmpNormal, tmpV);
-              tmpU.normalize();
-
-              atlasNormalAttr.setXYZ(
-                faceVertexIndex + 1,
-                tmpU.x,
-                tmpU.y,
-                tmpU.z
-              );
-              atlasNormalAttr.setXYZ(
-                faceVertexIndex + 2,
-                tmpV.x,
-                tmpV.y,
-                tmpV.z
-              );
-            }
-
-            // positioning in face
-            const facePosX = faceMod & 1;
-            const facePosY = (faceMod & 2) >> 1;
-
-            // mesh index + face index combined into one
-            const faceIndex = (faceVertexIndex - faceMod) / 3;
-
-            atlasFacePosAttr.setXYZ(
-              faceVertexIndex,
-              facePosX,
-              facePosY,
-              itemIndex * MAX_ITEM_FACES + faceIndex // @todo put +1 here instead of shader (Threejs somehow fails to set it though?)
-            );
-          }
+      // disposed during scene unmount
+      const pageItems = pages[pageIndex];
+      pageItems.push(createAtlasMapItem(item, pageItems.length));
+    });
 
-          const atlasBuffer = new THREE.BufferGeometry();
-          atlasBuffer.setAttribute('position', atlasFacePosAttr);
-          atlasBuffer.setAttribute('uv', atlasUVAttr);
-          atlasBuffer.setAttribute('normal', atlasNormalAttr);
-
-          return {
-            faceCount: faceVertexCount / 3,
-            faceBuffer: atlasBuffer,
-            originalMesh: mesh,
-            originalBuffer: buffer
-          };
+    setInputPages(pages);
+  }, [atlas, width, height, chartPadding, maxPages]);
+
+  // one target per page
+  const pageCount = inputPages ? inputPages.length : 0;
+  const orthoTargets = useMemo(() => {
+    const targets: THREE.WebGLRenderTarget[] = [];
+
+    for (let pageIndex = 0; pageIndex < pageCount; pageIndex += 1) {
+      targets.push(
+        new THREE.WebGLRenderTarget(width, height, {
+          type: THREE.FloatType,
+          magFilter: THREE.NearestFilter, // pixelate for debug display
+          minFilter: THREE.NearestFilter,
+          depthBuffer: false,
+          generateMipmaps: false
         })
-    );
-  }, [atlas]);
-
-  const orthoTarget = useMemo(() => {
-    return new THREE.WebGLRenderTarget(atlasWidth, atlasHeight, {
-      type: THREE.FloatType,
-      magFilter: THREE.NearestFilter, // pixelate for debug display
-      minFilter: THREE.NearestFilter,
-      depthBuffer: false,
-      generateMipmaps: false
-    });
-  }, []);
+      );
+    }
+
+    return targets;
+  }, [pageCount, width, height]);
 
   useEffect(
     () => () => {
       // clean up on unmount
-      orthoTarget.dispose();
+      for (const orthoTarget of orthoTargets) {
+        orthoTarget.dispose();
+      }
     },
-    [orthoTarget]
+    [orthoTargets]
   );
 
   const orthoCamera = useMemo(() => {
     return new THREE.OrthographicCamera(0, 1, 1, 0, 0, 1);
   }, []);
 
-  const orthoData = useMemo(() => {
-    return new Float32Array(atlasWidth * atlasHeight * 4);
-  }, [orthoTarget]);
-
   // disposed during scene unmount
   const material = useMemo(
     () =>
       new THREE.ShaderMaterial({
         side: THREE.DoubleSide, // UVs might have arbitrary winding
         vertexShader: `
+          attribute float itemIndex;
           varying vec3 vFacePos;
+          varying float vItemIndex;
 
           void main() {
             vFacePos = position;
+            vItemIndex = itemIndex;
 
             gl_Position = projectionMatrix * vec4(
               uv, // UV is the actual position on map
@@ -217,10 +342,11 @@ const IrradianceAtlasMapper: React.FC<{
         `,
         fragmentShader: `
           varying vec3 vFacePos;
+          varying float vItemIndex;
 
           void main() {
-            // encode the face information in map
-            gl_FragColor = vec4(vFacePos.xy, vFacePos.z + 1.0, 1.0);
+            // encode the face information in map (see encodeAtlasMapTexel)
+            gl_FragColor = vec4(vFacePos.xy, vFacePos.z + 1.0, vItemIndex + 1.0);
           }
         `
       }),
@@ -234,48 +360,59 @@ const IrradianceAtlasMapper: React.FC<{
   const orthoSceneRef = useUpdate<THREE.Scene>(
     (orthoScene) => {
       // nothing to do
-      if (!inputItems) {
+      if (!inputPages) {
         return;
       }
 
-      // produce the output
-      gl.autoClear = true;
-      gl.setRenderTarget(orthoTarget);
-      gl.render(orthoScene, orthoCamera);
-      gl.setRenderTarget(null);
-
-      gl.readRenderTargetPixels(
-        orthoTarget,
-        0,
-        0,
-        atlasWidth,
-        atlasHeight,
-        orthoData
-      );
-
-      setAtlasMap({
-        texture: orthoTarget.texture,
-        data: orthoData,
-        items: inputItems
+      // produce the output for each page in turn
+      const output = inputPages.map((pageItems, pageIndex) => {
+        const orthoTarget = orthoTargets[pageIndex];
+        const orthoData = new Float32Array(width * height * 4);
+
+        // show only this page's geometry
+        orthoScene.children.forEach((pageGroup, groupIndex) => {
+          pageGroup.visible = groupIndex === pageIndex;
+        });
+
+        gl.autoClear = true;
+        gl.setRenderTarget(orthoTarget);
+        gl.render(orthoScene, orthoCamera);
+        gl.setRenderTarget(null);
+
+        gl.readRenderTargetPixels(orthoTarget, 0, 0, width, height, orthoData);
+
+        return {
+          width,
+          height,
+          texture: orthoTarget.texture,
+          data: orthoData,
+          items: pageItems
+        };
       });
+
+      setAtlasMaps(output);
     },
-    [inputItems]
+    [inputPages]
   );
 
   return (
     <>
-      {children(atlasMap)}
+      {children(atlasMaps)}
 
-      {inputItems && (
+      {inputPages && (
         <scene ref={orthoSceneRef}>
-          {inputItems.map((geom, geomIndex) => {
-            return (
-              <mesh key={geomIndex}>
-                <primitive attach="geometry" object={geom.faceBuffer} />
-                <primitive attach="material" object={material} />
-              </mesh>
-            );
-          })}
+          {inputPages.map((pageItems, pageIndex) => (
+            <group key={pageIndex}>
+              {pageItems.map((geom, geomIndex) => {
+                return (
+                  <mesh key={geomIndex}>
+                    <primitive attach="geometry" object={geom.faceBuffer} />
+                    <primitive attach="material" object={material} />
+                  </mesh>
+                );
+              })}
+            </group>
+          ))}
         </scene>
       )}
     </>
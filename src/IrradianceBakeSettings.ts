@@ -0,0 +1,48 @@
+// tunables that trade baking speed for output quality
+export interface BakeSettings {
+  passCount: number; // maximum number of light bounces to compute
+  convergenceThreshold: number; // stop early once relative change between passes is below this (zero to disable)
+  emissiveMultiplier: number; // global conversion of display -> physical emissiveness
+  probeTargetSize: number; // pixel size of each probe viewport
+  probeBatchCount: number; // probes rendered per GPU readback
+  probeNear: number; // probe camera clipping range
+  probeFar: number;
+  areaLightSampleGrid: number; // shadow ray grid size across each area light
+}
+
+export type BakePresetName = 'preview' | 'medium' | 'final';
+
+export const BAKE_PRESETS: { [name in BakePresetName]: BakeSettings } = {
+  preview: {
+    passCount: 1,
+    convergenceThreshold: 0,
+    emissiveMultiplier: 32,
+    probeTargetSize: 8,
+    probeBatchCount: 16,
+    probeNear: 0.05,
+    probeFar: 50,
+    areaLightSampleGrid: 2
+  },
+  medium: {
+    passCount: 2,
+    convergenceThreshold: 0,
+    emissiveMultiplier: 32,
+    probeTargetSize: 16,
+    probeBatchCount: 8,
+    probeNear: 0.05,
+    probeFar: 50,
+    areaLightSampleGrid: 4
+  },
+  final: {
+    passCount: 8,
+    convergenceThreshold: 0.01,
+    emissiveMultiplier: 32,
+    probeTargetSize: 32,
+    probeBatchCount: 8,
+    probeNear: 0.05,
+    probeFar: 50,
+    areaLightSampleGrid: 8
+  }
+};
+
+export const DEFAULT_BAKE_SETTINGS = BAKE_PRESETS.medium;
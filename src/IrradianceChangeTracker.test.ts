@@ -0,0 +1,115 @@
+import * as THREE from 'three';
+
+import {
+  trackSceneItem,
+  isSceneItemChanged,
+  computeDirtyTexelMask
+} from './IrradianceChangeTracker';
+import {
+  createAtlasMapItem,
+  encodeAtlasMapTexel,
+  AtlasMap
+} from './IrradianceAtlasMapper';
+
+const ATLAS_WIDTH = 4;
+
+function createPanelMesh(x: number) {
+  const buffer = new THREE.PlaneBufferGeometry(1, 1);
+  buffer.setAttribute(
+    'uv2',
+    (buffer.attributes.uv as THREE.BufferAttribute).clone()
+  );
+
+  const mesh = new THREE.Mesh(buffer);
+  mesh.position.x = x;
+  mesh.updateMatrixWorld();
+
+  return mesh;
+}
+
+// single-row page where given texels (by position) map to given item indexes
+function createAtlasPage(
+  meshes: THREE.Mesh[],
+  texelItems: (number | null)[]
+): AtlasMap {
+  const data = new Float32Array(ATLAS_WIDTH * 4);
+  texelItems.forEach((itemIndex, texelIndex) => {
+    if (itemIndex !== null) {
+      encodeAtlasMapTexel(data, texelIndex, itemIndex, 0, 0.25, 0.25);
+    }
+  });
+
+  return {
+    width: ATLAS_WIDTH,
+    height: 1,
+    items: meshes.map((mesh, itemIndex) =>
+      createAtlasMapItem(
+        {
+          mesh,
+          buffer: mesh.geometry,
+          material: new THREE.MeshLambertMaterial(),
+          factorName: null,
+          animationClip: null,
+          indexRange: null,
+          lightmapScale: null
+        },
+        itemIndex
+      )
+    ),
+    data,
+    texture: new THREE.Texture()
+  };
+}
+
+describe('scene item tracking', () => {
+  it('picks up live material and transform changes', () => {
+    const mesh = createPanelMesh(0);
+    const material = new THREE.MeshLambertMaterial();
+    const item = {
+      mesh,
+      buffer: mesh.geometry,
+      material,
+      factorName: null,
+      animationClip: null,
+      indexRange: null,
+      lightmapScale: null
+    };
+
+    const tracked = trackSceneItem(item);
+    expect(isSceneItemChanged(item, tracked)).toBe(false);
+
+    material.emissiveIntensity = 2;
+    expect(isSceneItemChanged(item, tracked)).toBe(true);
+    material.emissiveIntensity = 1;
+
+    material.map = new THREE.Texture();
+    expect(isSceneItemChanged(item, tracked)).toBe(true);
+    material.map = null;
+
+    mesh.position.y = 1;
+    expect(isSceneItemChanged(item, tracked)).toBe(true);
+  });
+});
+
+describe('computeDirtyTexelMask', () => {
+  it('flags texels of changed meshes and texels inside dirty regions', () => {
+    const changedMesh = createPanelMesh(0);
+    const farMesh = createPanelMesh(10);
+    const nearbyMesh = createPanelMesh(20);
+
+    const atlasMaps = [
+      createAtlasPage([changedMesh], [0, 0, null, null]),
+      createAtlasPage([farMesh, nearbyMesh], [0, 1, 1, null])
+    ];
+
+    const region = new THREE.Box3(
+      new THREE.Vector3(19, -1, -1),
+      new THREE.Vector3(21, 1, 1)
+    );
+
+    const mask = computeDirtyTexelMask(atlasMaps, [changedMesh], [region]);
+
+    // mask is indexed across all pages
+    expect(Array.from(mask)).toEqual([1, 1, 0, 0, 0, 1, 1, 0]);
+  });
+});
@@ -0,0 +1,107 @@
+import * as THREE from 'three';
+
+import {
+  decodeAtlasMapTexel,
+  getAtlasFacePoint,
+  AtlasMap,
+  AtlasMapTexel
+} from './IrradianceAtlasMapper';
+import { AtlasSceneItem } from './IrradianceSurfaceManager';
+
+// last known state of a scene item as seen by the baker
+// (everything about the item that affects baked lighting)
+export interface TrackedSceneItem {
+  matrixWorld: THREE.Matrix4;
+  albedo: THREE.Color;
+  albedoMap: THREE.Texture | null;
+  emissive: THREE.Color;
+  emissiveIntensity: number;
+  emissiveMap: THREE.Texture | null;
+  bounds: THREE.Box3; // world-space
+}
+
+export function trackSceneItem(item: AtlasSceneItem): TrackedSceneItem {
+  const { mesh, material } = item;
+
+  mesh.updateWorldMatrix(true, false);
+
+  return {
+    matrixWorld: mesh.matrixWorld.clone(),
+    albedo: material.color.clone(),
+    albedoMap: material.map,
+    emissive: material.emissive.clone(),
+    emissiveIntensity: material.emissiveIntensity,
+    emissiveMap: material.emissiveMap,
+    bounds: new THREE.Box3().setFromObject(mesh)
+  };
+}
+
+// compared in place, since this runs for every item on every frame
+export function isSceneItemChanged(
+  item: AtlasSceneItem,
+  tracked: TrackedSceneItem
+): boolean {
+  const { mesh, material } = item;
+
+  mesh.updateWorldMatrix(true, false);
+
+  return (
+    !mesh.matrixWorld.equals(tracked.matrixWorld) ||
+    !material.color.equals(tracked.albedo) ||
+    material.map !== tracked.albedoMap ||
+    !material.emissive.equals(tracked.emissive) ||
+    material.emissiveIntensity !== tracked.emissiveIntensity ||
+    material.emissiveMap !== tracked.emissiveMap
+  );
+}
+
+// temp objects for computation
+const tmpTexel: AtlasMapTexel = {
+  itemIndex: 0,
+  faceIndex: 0,
+  faceU: 0,
+  faceV: 0
+};
+const tmpOrigin = new THREE.Vector3();
+
+// flag texels that belong to changed meshes or sit inside any of the given world-space regions
+// (mask is indexed by global texel index across all pages)
+export function computeDirtyTexelMask(
+  atlasMaps: AtlasMap[],
+  changedMeshes: THREE.Mesh[],
+  regions: THREE.Box3[]
+): Uint8Array {
+  const pageTexelCount = atlasMaps[0].width * atlasMaps[0].height;
+  const mask = new Uint8Array(pageTexelCount * atlasMaps.length);
+
+  atlasMaps.forEach((atlasMap, pageIndex) => {
+    for (
+      let pageTexelIndex = 0;
+      pageTexelIndex < pageTexelCount;
+      pageTexelIndex += 1
+    ) {
+      if (!decodeAtlasMapTexel(atlasMap.data, pageTexelIndex, tmpTexel)) {
+        continue;
+      }
+
+      const { itemIndex, faceIndex, faceU, faceV } = tmpTexel;
+      const atlasMapItem = atlasMap.items[itemIndex];
+      const { originalMesh } = atlasMapItem;
+      const texelIndex = pageIndex * pageTexelCount + pageTexelIndex;
+
+      if (changedMeshes.indexOf(originalMesh) !== -1) {
+        mask[texelIndex] = 1;
+        continue;
+      }
+
+      getAtlasFacePoint(atlasMapItem, faceIndex, faceU, faceV, tmpOrigin);
+      tmpOrigin.applyMatrix4(originalMesh.matrixWorld);
+
+      if (regions.some((region) => region.containsPoint(tmpOrigin))) {
+        mask[texelIndex] = 1;
+      }
+    }
+  });
+
+  return mask;
+}
@@ -2,13 +2,13 @@ import React, { useMemo, useEffect, useRef } from 'react';
 import { useFrame } from 'react-three-fiber';
 import * as THREE from 'three';
 
-import { atlasWidth, atlasHeight } from './IrradianceAtlasMapper';
+import { AtlasMap } from './IrradianceAtlasMapper';
 import { IrradianceTextureContext } from './IrradianceSurfaceManager';
 
+// map is assigned per atlas page during compositing
 const CompositorLayerMaterial: React.FC<{
-  map: THREE.Texture;
   materialRef: React.MutableRefObject<THREE.ShaderMaterial | null>;
-}> = ({ map, materialRef }) => {
+}> = ({ materialRef }) => {
   const material = useMemo(
     () =>
       new THREE.ShaderMaterial({
@@ -43,27 +43,24 @@ const CompositorLayerMaterial: React.FC<{
   );
 
   // disposable managed object
-  return (
-    <primitive
-      object={material}
-      attach="material"
-      uniforms-map-value={map}
-      ref={materialRef}
-    />
-  );
+  return <primitive object={material} attach="material" ref={materialRef} />;
 };
 
 export default function IrradianceCompositor<
-  FactorMap extends { [name: string]: THREE.Texture | null | undefined }
+  FactorMap extends { [name: string]: THREE.Texture[] | null | undefined }
 >({
+  atlasMaps,
   baseOutput,
   factorOutputs,
   factorValues,
+  directionOutput,
   children
 }: React.PropsWithChildren<{
-  baseOutput: THREE.Texture | null | undefined;
+  atlasMaps: AtlasMap[] | null | undefined;
+  baseOutput: THREE.Texture[] | null | undefined;
   factorOutputs: FactorMap;
   factorValues?: { [name in keyof FactorMap]: number | undefined };
+  directionOutput?: THREE.Texture[] | null; // passed through as is (not composited)
 }>): React.ReactElement {
   const orthoSceneRef = useRef<THREE.Scene>();
 
@@ -80,21 +77,53 @@ export default function IrradianceCompositor<
     return result;
   }, [factorOutputs]);
 
-  const orthoTarget = useMemo(() => {
-    return new THREE.WebGLRenderTarget(atlasWidth, atlasHeight, {
-      type: THREE.FloatType,
-      magFilter: THREE.NearestFilter,
-      minFilter: THREE.NearestFilter,
-      generateMipmaps: false
-    });
-  }, []);
+  // output size follows the atlas map (nothing to composite until it is ready)
+  const pageCount = atlasMaps ? atlasMaps.length : 0;
+  const atlasWidth = atlasMaps && pageCount > 0 ? atlasMaps[0].width : 0;
+  const atlasHeight = atlasMaps && pageCount > 0 ? atlasMaps[0].height : 0;
+
+  // one target per atlas page
+  const orthoTargets = useMemo(() => {
+    const targets: THREE.WebGLRenderTarget[] = [];
+
+    for (let pageIndex = 0; pageIndex < pageCount; pageIndex += 1) {
+      targets.push(
+        new THREE.WebGLRenderTarget(atlasWidth, atlasHeight, {
+          type: THREE.FloatType,
+          magFilter: THREE.NearestFilter,
+          minFilter: THREE.NearestFilter,
+          generateMipmaps: false
+        })
+      );
+    }
+
+    return targets;
+  }, [pageCount, atlasWidth, atlasHeight]);
 
   useEffect(
     () => () => {
       // clean up on unmount
-      orthoTarget.dispose();
+      for (const orthoTarget of orthoTargets) {
+        orthoTarget.dispose();
+      }
     },
-    [orthoTarget]
+    [orthoTargets]
+  );
+
+  // downstream surfaces look up their page texture
+  const textureInfo = useMemo(
+    () =>
+      atlasMaps && orthoTargets.length > 0
+        ? {
+            atlasMaps,
+            textures: orthoTargets.map((orthoTarget) => orthoTarget.texture),
+            directionTextures:
+              directionOutput && directionOutput.length > 0
+                ? directionOutput
+                : null
+          }
+        : null,
+    [atlasMaps, orthoTargets, directionOutput]
   );
 
   const orthoCamera = useMemo(() => {
@@ -123,10 +152,27 @@ export default function IrradianceCompositor<
       }
     }
 
-    gl.autoClear = true;
-    gl.setRenderTarget(orthoTarget);
-    gl.render(orthoScene, orthoCamera);
-    gl.setRenderTarget(null);
+    // composite each page with its own layer textures
+    orthoTargets.forEach((orthoTarget, pageIndex) => {
+      if (baseMaterialRef.current && baseOutput) {
+        baseMaterialRef.current.uniforms.map.value = baseOutput[pageIndex];
+      }
+
+      for (const factorName in factorOutputs) {
+        const factorMaterialRef = factorMaterialRefMap[factorName];
+        const factorOutput = factorOutputs[factorName];
+
+        if (factorMaterialRef.current && factorOutput) {
+          factorMaterialRef.current.uniforms.map.value =
+            factorOutput[pageIndex];
+        }
+      }
+
+      gl.autoClear = true;
+      gl.setRenderTarget(orthoTarget);
+      gl.render(orthoScene, orthoCamera);
+      gl.setRenderTarget(null);
+    });
   }, 10);
 
   return (
@@ -135,10 +181,7 @@ export default function IrradianceCompositor<
         {baseOutput && (
           <mesh>
             <planeBufferGeometry attach="geometry" args={[2, 2]} />
-            <CompositorLayerMaterial
-              map={baseOutput}
-              materialRef={baseMaterialRef}
-            />
+            <CompositorLayerMaterial materialRef={baseMaterialRef} />
           </mesh>
         )}
 
@@ -149,7 +192,6 @@ export default function IrradianceCompositor<
               <mesh key={factorName}>
                 <planeBufferGeometry attach="geometry" args={[2, 2]} />
                 <CompositorLayerMaterial
-                  map={factorOutput}
                   materialRef={factorMaterialRefMap[factorName]}
                 />
               </mesh>
@@ -158,7 +200,7 @@ export default function IrradianceCompositor<
         })}
       </scene>
 
-      <IrradianceTextureContext.Provider value={orthoTarget.texture}>
+      <IrradianceTextureContext.Provider value={textureInfo}>
         {children}
       </IrradianceTextureContext.Provider>
     </>
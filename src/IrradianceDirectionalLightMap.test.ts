@@ -0,0 +1,42 @@
+import * as THREE from 'three';
+
+import { applyDirectionalLightMap } from './IrradianceDirectionalLightMap';
+
+function createShader(): THREE.Shader {
+  const { uniforms, vertexShader, fragmentShader } = THREE.ShaderLib.standard;
+  return { uniforms: { ...uniforms }, vertexShader, fragmentShader };
+}
+
+describe('applyDirectionalLightMap', () => {
+  const renderer = {} as THREE.WebGLRenderer;
+
+  it('leaves materials it did not patch alone', () => {
+    const material = new THREE.MeshStandardMaterial();
+    const customHook = jest.fn();
+    material.onBeforeCompile = customHook;
+
+    applyDirectionalLightMap(material, null);
+
+    expect(material.onBeforeCompile).toBe(customHook);
+  });
+
+  it('chains and then restores the existing hook', () => {
+    const material = new THREE.MeshStandardMaterial();
+    const customHook = jest.fn();
+    material.onBeforeCompile = customHook;
+
+    applyDirectionalLightMap(material, new THREE.Texture());
+    applyDirectionalLightMap(material, new THREE.Texture()); // re-patch
+
+    const shader = createShader();
+    material.onBeforeCompile(shader, renderer);
+
+    expect(customHook).toHaveBeenCalledTimes(1);
+    expect(shader.uniforms.lightMapDirection).toBeDefined();
+    expect(shader.fragmentShader).toContain('lightMapDirectionScale');
+
+    applyDirectionalLightMap(material, null);
+
+    expect(material.onBeforeCompile).toBe(customHook);
+  });
+});
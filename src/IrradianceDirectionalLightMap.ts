@@ -0,0 +1,76 @@
+import * as THREE from 'three';
+
+import { AtlasDisplayMaterial } from './IrradianceSurfaceManager';
+
+// lightmap contribution is rescaled by how much the normal-mapped surface faces
+// the dominant direction, relative to the flat surface that the bake actually saw
+// (direction length is the directionality, so even lighting stays unchanged)
+const directionalLightMapChunk = THREE.ShaderChunk.lights_fragment_maps.replace(
+  'irradiance += lightMapIrradiance;',
+  `
+    vec3 lightMapDirectionView = ( viewMatrix * vec4( texture2D( lightMapDirection, vUv2 ).xyz, 0.0 ) ).xyz;
+    float lightMapDirectionScale = ( dot( normal, lightMapDirectionView ) * 0.5 + 0.5 ) / max( 1e-4, dot( geometryNormal, lightMapDirectionView ) * 0.5 + 0.5 );
+
+    irradiance += lightMapIrradiance * lightMapDirectionScale;
+  `
+);
+
+// hooks that were on the material before it got patched here, to chain and restore
+const previousOnBeforeCompile = new WeakMap<
+  AtlasDisplayMaterial,
+  THREE.Material['onBeforeCompile']
+>();
+
+// patch display material to use baked direction data (null restores prior shader);
+// Lambert has no normal map support, so it is left as is
+export function applyDirectionalLightMap(
+  material: AtlasDisplayMaterial,
+  directionMap: THREE.Texture | null
+) {
+  if (material instanceof THREE.MeshLambertMaterial) {
+    return;
+  }
+
+  const previousHook = previousOnBeforeCompile.get(material);
+
+  if (!directionMap) {
+    if (!previousHook) {
+      return; // not patched here, leave any custom hook alone
+    }
+
+    previousOnBeforeCompile.delete(material);
+    material.onBeforeCompile = previousHook;
+    material.needsUpdate = true;
+    return;
+  }
+
+  // when re-patching, keep chaining to the original hook and not to own patch
+  const chainedHook = previousHook || material.onBeforeCompile;
+  previousOnBeforeCompile.set(material, chainedHook);
+
+  const directionUniform = { value: directionMap };
+
+  const patchedHook: THREE.Material['onBeforeCompile'] = function (
+    this: THREE.Material,
+    shader,
+    renderer
+  ) {
+    chainedHook.call(this, shader, renderer);
+
+    shader.uniforms.lightMapDirection = directionUniform;
+
+    shader.fragmentShader = shader.fragmentShader
+      .replace(
+        '#include <lightmap_pars_fragment>',
+        '#include <lightmap_pars_fragment>\nuniform sampler2D lightMapDirection;'
+      )
+      .replace('#include <lights_fragment_maps>', directionalLightMapChunk);
+  };
+
+  // program cache is keyed by hook source, so chained hook has to be part of it
+  const patchedSource = Function.prototype.toString.call(patchedHook);
+  patchedHook.toString = () => patchedSource + chainedHook.toString();
+
+  material.onBeforeCompile = patchedHook;
+  material.needsUpdate = true;
+}
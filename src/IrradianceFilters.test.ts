@@ -0,0 +1,232 @@
+import * as THREE from 'three';
+
+import { dilateOutput, denoiseOutput } from './IrradianceFilters';
+import {
+  createAtlasMapItem,
+  encodeAtlasMapTexel,
+  AtlasMap
+} from './IrradianceAtlasMapper';
+
+function setComputedTexel(
+  data: Float32Array,
+  width: number,
+  x: number,
+  y: number,
+  value: number
+) {
+  const texelBase = (y * width + x) * 4;
+  data[texelBase] = value;
+  data[texelBase + 1] = value;
+  data[texelBase + 2] = value;
+  data[texelBase + 3] = 1;
+}
+
+function getTexel(data: Float32Array, width: number, x: number, y: number) {
+  const texelBase = (y * width + x) * 4;
+  return Array.from(data.subarray(texelBase, texelBase + 4));
+}
+
+// single-row atlas with given items (each a list of face normals),
+// where every face covers a run of texels in order
+function createStripAtlas(
+  itemFaceNormals: number[][][],
+  texelsPerFace: number
+): AtlasMap {
+  const faceTotal = itemFaceNormals.reduce(
+    (total, faceNormals) => total + faceNormals.length,
+    0
+  );
+  const width = faceTotal * texelsPerFace;
+  const data = new Float32Array(width * 4);
+
+  let texelIndex = 0;
+  const items = itemFaceNormals.map((faceNormals, itemIndex) => {
+    const buffer = new THREE.BufferGeometry();
+    buffer.setAttribute(
+      'position',
+      new THREE.Float32BufferAttribute(
+        faceNormals.flatMap((normal, faceIndex) => [
+          faceIndex,
+          0,
+          0,
+          faceIndex + 1,
+          0,
+          0,
+          faceIndex,
+          1,
+          0
+        ]),
+        3
+      )
+    );
+    buffer.setAttribute(
+      'normal',
+      new THREE.Float32BufferAttribute(
+        faceNormals.flatMap((normal) => [...normal, ...normal, ...normal]),
+        3
+      )
+    );
+    buffer.setAttribute(
+      'uv2',
+      new THREE.Float32BufferAttribute(faceNormals.length * 6, 2)
+    );
+
+    faceNormals.forEach((normal, faceIndex) => {
+      for (let texel = 0; texel < texelsPerFace; texel += 1) {
+        encodeAtlasMapTexel(data, texelIndex, itemIndex, faceIndex, 0.25, 0.25);
+        texelIndex += 1;
+      }
+    });
+
+    return createAtlasMapItem(
+      {
+        mesh: new THREE.Mesh(buffer),
+        buffer,
+        material: new THREE.MeshLambertMaterial(),
+        factorName: null,
+        animationClip: null,
+        indexRange: null,
+        lightmapScale: null
+      },
+      itemIndex
+    );
+  });
+
+  return { width, height: 1, items, data, texture: new THREE.Texture() };
+}
+
+function createStripOutput(values: number[]) {
+  const data = new Float32Array(values.length * 4);
+  values.forEach((value, x) => {
+    setComputedTexel(data, values.length, x, 0, value);
+  });
+  return data;
+}
+
+function getStripValues(data: Float32Array) {
+  return Array.from({ length: data.length / 4 }, (_, x) => data[x * 4]);
+}
+
+describe('dilateOutput', () => {
+  it('grows by one texel ring per radius step', () => {
+    const data = new Float32Array(7 * 7 * 4);
+    setComputedTexel(data, 7, 3, 3, 0.5);
+
+    dilateOutput(data, 7, 7, 2);
+
+    expect(getTexel(data, 7, 4, 3)).toEqual([0.5, 0.5, 0.5, 0]);
+    expect(getTexel(data, 7, 5, 3)).toEqual([0.5, 0.5, 0.5, 0]);
+    expect(getTexel(data, 7, 5, 5)).toEqual([0.5, 0.5, 0.5, 0]);
+    expect(getTexel(data, 7, 6, 3)).toEqual([0, 0, 0, 0]);
+    expect(getTexel(data, 7, 0, 0)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('does not wrap around atlas edges', () => {
+    const data = new Float32Array(4 * 2 * 4);
+    setComputedTexel(data, 4, 3, 0, 0.5);
+
+    dilateOutput(data, 4, 2, 1);
+
+    expect(getTexel(data, 4, 2, 0)).toEqual([0.5, 0.5, 0.5, 0]);
+    expect(getTexel(data, 4, 3, 1)).toEqual([0.5, 0.5, 0.5, 0]);
+
+    // next row start follows right after the edge texel in memory
+    expect(getTexel(data, 4, 0, 1)).toEqual([0, 0, 0, 0]);
+    expect(getTexel(data, 4, 0, 0)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('prefers orthogonal neighbours over diagonal ones', () => {
+    const data = new Float32Array(3 * 3 * 4);
+    setComputedTexel(data, 3, 1, 0, 0.25);
+    setComputedTexel(data, 3, 0, 0, 1);
+
+    dilateOutput(data, 3, 3, 1);
+
+    expect(getTexel(data, 3, 1, 1)).toEqual([0.25, 0.25, 0.25, 0]);
+
+    // only diagonal neighbour is available here
+    expect(getTexel(data, 3, 2, 1)).toEqual([0.25, 0.25, 0.25, 0]);
+  });
+
+  it('keeps zero alpha on dilated texels', () => {
+    const data = new Float32Array(5 * 5 * 4);
+    setComputedTexel(data, 5, 2, 2, 0.5);
+
+    dilateOutput(data, 5, 5, 2);
+
+    for (let y = 0; y < 5; y += 1) {
+      for (let x = 0; x < 5; x += 1) {
+        expect(getTexel(data, 5, x, y)[3]).toBe(x === 2 && y === 2 ? 1 : 0);
+      }
+    }
+  });
+});
+
+describe('denoiseOutput', () => {
+  const up = [0, 0, 1];
+  const side = [1, 0, 0];
+
+  it('smooths out noise within a chart', () => {
+    const atlasMap = createStripAtlas([[up]], 8);
+    const values = [0.4, 0.6, 0.4, 0.6, 0.4, 0.6, 0.4, 0.6];
+    const data = createStripOutput(values);
+
+    denoiseOutput(data, atlasMap, [new Int32Array([0])], 1);
+
+    getStripValues(data).forEach((value, x) => {
+      expect(Math.abs(value - 0.5)).toBeLessThan(Math.abs(values[x] - 0.5));
+    });
+  });
+
+  it('does not mix values across charts or items', () => {
+    const atlasMap = createStripAtlas([[up, up], [up]], 4);
+    const values = [1, 1, 1, 1, 0, 0, 0, 0, 1, 1, 1, 1];
+
+    const data = createStripOutput(values);
+    denoiseOutput(
+      data,
+      atlasMap,
+      [new Int32Array([0, 1]), new Int32Array([2])],
+      10
+    );
+    expect(getStripValues(data)).toEqual(values);
+
+    // same faces in one chart do get mixed
+    const mixedData = createStripOutput(values);
+    denoiseOutput(
+      mixedData,
+      atlasMap,
+      [new Int32Array([0, 0]), new Int32Array([2])],
+      10
+    );
+    expect(getStripValues(mixedData)[3]).toBeLessThan(1);
+    expect(getStripValues(mixedData).slice(8)).toEqual([1, 1, 1, 1]);
+  });
+
+  it('does not mix values across creases', () => {
+    const atlasMap = createStripAtlas([[up, side]], 4);
+    const values = [1, 1, 1, 1, 0, 0, 0, 0];
+    const data = createStripOutput(values);
+
+    denoiseOutput(data, atlasMap, [new Int32Array([0, 0])], 10);
+
+    expect(getStripValues(data)).toEqual(values);
+  });
+
+  it('only updates texels in the mask', () => {
+    const atlasMap = createStripAtlas([[up]], 8);
+    const values = [0.4, 0.6, 0.4, 0.6, 0.4, 0.6, 0.4, 0.6];
+    const data = createStripOutput(values);
+    const texelMask = new Uint8Array([0, 0, 0, 0, 1, 1, 1, 1]);
+
+    denoiseOutput(data, atlasMap, [new Int32Array([0])], 1, texelMask);
+
+    const result = getStripValues(data);
+    expect(result.slice(0, 4)).toEqual(
+      Array.from(new Float32Array(values.slice(0, 4)))
+    );
+    result.slice(4).forEach((value, x) => {
+      expect(value).not.toBeCloseTo(values[x + 4], 5);
+    });
+  });
+});
@@ -0,0 +1,247 @@
+// post-processing for baked output data (RGBA float, alpha is non-zero for computed texels)
+import {
+  decodeAtlasMapTexel,
+  AtlasMap,
+  AtlasMapTexel
+} from './IrradianceAtlasMapper';
+
+// offsets for 3x3 neighbourhood, orthogonal ones first
+const offDirX = [1, 0, -1, 0, 1, -1, -1, 1];
+const offDirY = [0, 1, 0, -1, 1, 1, -1, -1];
+
+// grow computed texel values outwards into empty space by given number of texels,
+// to avoid bleeding of blank space during texture filtering;
+// dilated texels keep zero alpha so that they are never treated as computed
+export function dilateOutput(
+  data: Float32Array,
+  width: number,
+  height: number,
+  radius: number
+) {
+  const texelCount = width * height;
+
+  // texels that can be used as source (computed, or filled in a previous ring)
+  const filled = new Uint8Array(texelCount);
+  for (let texelIndex = 0; texelIndex < texelCount; texelIndex += 1) {
+    filled[texelIndex] = data[texelIndex * 4 + 3] > 0 ? 1 : 0;
+  }
+
+  const ringTexels: number[] = [];
+
+  for (let ring = 0; ring < radius; ring += 1) {
+    ringTexels.length = 0;
+
+    for (let y = 0; y < height; y += 1) {
+      for (let x = 0; x < width; x += 1) {
+        const texelIndex = y * width + x;
+
+        if (filled[texelIndex]) {
+          continue;
+        }
+
+        let r = 0,
+          g = 0,
+          b = 0,
+          count = 0;
+
+        for (let offDir = 0; offDir < 8; offDir += 1) {
+          // orthogonal neighbours take precedence over diagonal ones
+          if (offDir === 4 && count > 0) {
+            break;
+          }
+
+          const offX = x + offDirX[offDir];
+          const offY = y + offDirY[offDir];
+
+          // no wrap-around at atlas edges
+          if (offX < 0 || offX >= width || offY < 0 || offY >= height) {
+            continue;
+          }
+
+          const offTexelIndex = offY * width + offX;
+
+          // only sample texels filled before this ring
+          if (filled[offTexelIndex] !== 1) {
+            continue;
+          }
+
+          const offTexelBase = offTexelIndex * 4;
+          r += data[offTexelBase];
+          g += data[offTexelBase + 1];
+          b += data[offTexelBase + 2];
+          count += 1;
+        }
+
+        if (count === 0) {
+          continue;
+        }
+
+        const texelBase = texelIndex * 4;
+        data[texelBase] = r / count;
+        data[texelBase + 1] = g / count;
+        data[texelBase + 2] = b / count;
+        data[texelBase + 3] = 0;
+
+        // mark as pending so that this ring does not feed itself
+        filled[texelIndex] = 2;
+        ringTexels.push(texelIndex);
+      }
+    }
+
+    // nothing more to grow into
+    if (ringTexels.length === 0) {
+      break;
+    }
+
+    for (const texelIndex of ringTexels) {
+      filled[texelIndex] = 1;
+    }
+  }
+}
+
+// B3 spline kernel for the a-trous wavelet filter
+const atrousKernel = [1 / 16, 1 / 4, 3 / 8, 1 / 4, 1 / 16];
+
+// temp object for decoding texel info
+const tmpTexel: AtlasMapTexel = {
+  itemIndex: 0,
+  faceIndex: 0,
+  faceU: 0,
+  faceV: 0
+};
+
+// edge-aware smoothing of computed texels (a-trous wavelet filter),
+// guided by the atlas map so that values never leak across surfaces, charts
+// (see findAtlasCharts) or sharp creases; strength is the allowed relative colour difference (zero disables the filter),
+// and optional mask limits which texels get updated
+export function denoiseOutput(
+  data: Float32Array,
+  atlasMap: AtlasMap,
+  faceCharts: Int32Array[],
+  strength: number,
+  texelMask: Uint8Array | null = null,
+  iterationCount = 3
+) {
+  if (strength <= 0) {
+    return;
+  }
+
+  const { width, height, items } = atlasMap;
+  const texelCount = width * height;
+
+  // collect guidance info (chart and face normal) for every computed texel
+  const texelCharts = new Int32Array(texelCount).fill(-1);
+  const texelNormals = new Float32Array(texelCount * 3);
+
+  for (let texelIndex = 0; texelIndex < texelCount; texelIndex += 1) {
+    if (data[texelIndex * 4 + 3] <= 0) {
+      continue;
+    }
+
+    if (!decodeAtlasMapTexel(atlasMap.data, texelIndex, tmpTexel)) {
+      continue;
+    }
+
+    const { itemIndex, faceIndex } = tmpTexel;
+    if (itemIndex >= items.length) {
+      continue;
+    }
+
+    // face normal is stored on the first vertex of the face
+    const normalArray = items[itemIndex].faceBuffer.attributes.normal.array;
+    const normalBase = faceIndex * 9;
+
+    texelCharts[texelIndex] = faceCharts[itemIndex][faceIndex];
+    texelNormals[texelIndex * 3] = normalArray[normalBase];
+    texelNormals[texelIndex * 3 + 1] = normalArray[normalBase + 1];
+    texelNormals[texelIndex * 3 + 2] = normalArray[normalBase + 2];
+  }
+
+  const source = new Float32Array(data.length);
+
+  for (let iteration = 0; iteration < iterationCount; iteration += 1) {
+    // sample step doubles with each iteration
+    const step = 1 << iteration;
+
+    source.set(data);
+
+    for (let y = 0; y < height; y += 1) {
+      for (let x = 0; x < width; x += 1) {
+        const texelIndex = y * width + x;
+        const chartIndex = texelCharts[texelIndex];
+
+        if (chartIndex === -1 || (texelMask && !texelMask[texelIndex])) {
+          continue;
+        }
+
+        const texelBase = texelIndex * 4;
+        const cr = source[texelBase];
+        const cg = source[texelBase + 1];
+        const cb = source[texelBase + 2];
+        const nx = texelNormals[texelIndex * 3];
+        const ny = texelNormals[texelIndex * 3 + 1];
+        const nz = texelNormals[texelIndex * 3 + 2];
+
+        // colour tolerance is relative to local brightness
+        const colorSigma = strength * (Math.max(cr, cg, cb) + 0.01);
+        const colorSigmaSq2 = 2 * colorSigma * colorSigma;
+
+        let r = 0,
+          g = 0,
+          b = 0,
+          totalWeight = 0;
+
+        for (let ky = -2; ky <= 2; ky += 1) {
+          const offY = y + ky * step;
+          if (offY < 0 || offY >= height) {
+            continue;
+          }
+
+          for (let kx = -2; kx <= 2; kx += 1) {
+            const offX = x + kx * step;
+            if (offX < 0 || offX >= width) {
+              continue;
+            }
+
+            const offTexelIndex = offY * width + offX;
+
+            // never mix different surfaces or disconnected parts of the same one
+            if (texelCharts[offTexelIndex] !== chartIndex) {
+              continue;
+            }
+
+            // skip across creases
+            const normalDot =
+              nx * texelNormals[offTexelIndex * 3] +
+              ny * texelNormals[offTexelIndex * 3 + 1] +
+              nz * texelNormals[offTexelIndex * 3 + 2];
+            if (normalDot <= 0) {
+              continue;
+            }
+
+            const offTexelBase = offTexelIndex * 4;
+            const dr = source[offTexelBase] - cr;
+            const dg = source[offTexelBase + 1] - cg;
+            const db = source[offTexelBase + 2] - cb;
+
+            const weight =
+              atrousKernel[kx + 2] *
+              atrousKernel[ky + 2] *
+              Math.pow(normalDot, 32) *
+              Math.exp(-(dr * dr + dg * dg + db * db) / colorSigmaSq2);
+
+            r += source[offTexelBase] * weight;
+            g += source[offTexelBase + 1] * weight;
+            b += source[offTexelBase + 2] * weight;
+            totalWeight += weight;
+          }
+        }
+
+        // center texel always contributes, so weight is never zero
+        data[texelBase] = r / totalWeight;
+        data[texelBase + 1] = g / totalWeight;
+        data[texelBase + 2] = b / totalWeight;
+      }
+    }
+  }
+}
@@ -14,11 +14,11 @@ import {
 } from 'react-three-fiber';
 import * as THREE from 'three';
 
+import { getBufferFaceIndexArray } from './IrradianceSurfaceManager';
+import { BakeSettings } from './IrradianceBakeSettings';
 import {
-  atlasWidth,
-  atlasHeight,
-  MAX_ITEM_FACES,
-  AtlasMap,
+  computeNormalCardinalDirections,
+  getAtlasFacePoint,
   AtlasMapItem
 } from './IrradianceAtlasMapper';
 
@@ -27,18 +27,19 @@ const tmpU = new THREE.Vector3();
 const tmpV = new THREE.Vector3();
 
 const tmpNormal = new THREE.Vector3();
+const tmpNormalU = new THREE.Vector3();
+const tmpNormalV = new THREE.Vector3();
 const tmpLookAt = new THREE.Vector3();
 
 const tmpProbeBox = new THREE.Vector4();
 
-export const PROBE_BATCH_COUNT = 8;
-
 export type ProbeDataHandler = (
   rgbaData: Float32Array,
   rowPixelStride: number,
   probeBox: THREE.Vector4,
   originX: number, // device coordinates of lower-left corner of the viewbox
-  originY: number
+  originY: number,
+  cameraMatrix: THREE.Matrix4 // world transform of the probe camera for this viewbox
 ) => void;
 
 export type ProbeBatchRenderer = (
@@ -104,18 +105,23 @@ function setUpProbeSide(
   probeCam.applyMatrix4(mesh.matrixWorld);
 }
 
+// with smooth normals the probe is oriented by vertex normals interpolated at the texel,
+// otherwise the whole face shares one normal (better for hard-edged geometry)
 export function useLightProbe(
-  probeTargetSize: number
+  settings: BakeSettings,
+  smoothNormals = false
 ): {
   renderLightProbeBatch: ProbeBatcher;
   probePixelAreaLookup: number[];
+  probePixelDirectionLookup: number[];
   debugLightProbeTexture: THREE.Texture;
 } {
+  const { probeTargetSize, probeBatchCount, probeNear, probeFar } = settings;
   const probePixelCount = probeTargetSize * probeTargetSize;
   const halfSize = probeTargetSize / 2;
 
   const targetWidth = probeTargetSize * 4; // 4 tiles across
-  const targetHeight = probeTargetSize * 2 * PROBE_BATCH_COUNT; // 2 tiles x batch count
+  const targetHeight = probeTargetSize * 2 * probeBatchCount; // 2 tiles x batch count
 
   const probeTarget = useMemo(() => {
     return new THREE.WebGLRenderTarget(targetWidth, targetHeight, {
@@ -153,6 +159,32 @@ export function useLightProbe(
     return lookup;
   }, [probePixelCount]);
 
+  // camera-space ray direction for each pixel in the individual probe viewport
+  // (three components per pixel)
+  const probePixelDirectionLookup = useMemo(() => {
+    const lookup = new Array(probePixelCount * 3);
+
+    const probePixelBias = 0.5 / probeTargetSize;
+
+    for (let py = 0; py < probeTargetSize; py += 1) {
+      const dy = py / probeTargetSize - 0.5 + probePixelBias;
+
+      for (let px = 0; px < probeTargetSize; px += 1) {
+        const dx = px / probeTargetSize - 0.5 + probePixelBias;
+
+        // view cone is 90 degrees, so viewport edge is at unit distance from center
+        const hypo = Math.hypot(dx * 2, dy * 2, 1);
+        const lookupBase = (py * probeTargetSize + px) * 3;
+
+        lookup[lookupBase] = (dx * 2) / hypo;
+        lookup[lookupBase + 1] = (dy * 2) / hypo;
+        lookup[lookupBase + 2] = -1 / hypo;
+      }
+    }
+
+    return lookup;
+  }, [probePixelCount, probeTargetSize]);
+
   useEffect(
     () => () => {
       // clean up on unmount
@@ -164,16 +196,23 @@ export function useLightProbe(
   const probeCam = useMemo(() => {
     const rtFov = 90; // view cone must be quarter of the hemisphere
     const rtAspect = 1; // square render target
-    const rtNear = 0.05;
-    const rtFar = 50;
-    return new THREE.PerspectiveCamera(rtFov, rtAspect, rtNear, rtFar);
-  }, []);
+    return new THREE.PerspectiveCamera(rtFov, rtAspect, probeNear, probeFar);
+  }, [probeNear, probeFar]);
 
   const probeData = useMemo(() => {
     return new Float32Array(targetWidth * targetHeight * 4);
   }, [targetWidth, targetHeight]);
 
-  const batchTexels = new Array(PROBE_BATCH_COUNT) as (number | undefined)[];
+  const batchTexels = new Array(probeBatchCount) as (number | undefined)[];
+
+  // probe camera transform for each of the 5 viewports of every batch item
+  const batchCameraMatrices = useMemo(() => {
+    const matrices: THREE.Matrix4[] = [];
+    for (let i = 0; i < probeBatchCount * 5; i += 1) {
+      matrices.push(new THREE.Matrix4());
+    }
+    return matrices;
+  }, [probeBatchCount]);
 
   // @todo ensure there is biasing to be in middle of texel physical square
   const renderLightProbeBatch: ProbeBatcher = function renderLightProbeBatch(
@@ -190,7 +229,7 @@ export function useLightProbe(
     gl.clearDepth();
     gl.clearColor();
 
-    for (let batchItem = 0; batchItem < PROBE_BATCH_COUNT; batchItem += 1) {
+    for (let batchItem = 0; batchItem < probeBatchCount; batchItem += 1) {
       batchTexels[batchItem] = undefined;
 
       batchItemCallback((texelIndex, atlasMapItem, faceIndex, pU, pV) => {
@@ -200,36 +239,50 @@ export function useLightProbe(
         // save which texel is being rendered for later reporting
         batchTexels[batchItem] = texelIndex;
 
-        const { faceBuffer, originalMesh, originalBuffer } = atlasMapItem;
+        const {
+          faceBuffer,
+          faceStart,
+          originalMesh,
+          originalBuffer
+        } = atlasMapItem;
 
-        if (!originalBuffer.index) {
-          throw new Error('expected indexed mesh');
-        }
-
-        // read vertex position for this face and interpolate along U and V axes
-        const origIndexArray = originalBuffer.index.array;
-        const origPosArray = originalBuffer.attributes.position.array;
+        // set camera to match texel, first in mesh-local space
+        getAtlasFacePoint(atlasMapItem, faceIndex, pU, pV, tmpOrigin);
 
+        const origIndexArray = getBufferFaceIndexArray(originalBuffer);
         const normalArray = faceBuffer.attributes.normal.array;
+        const origNormalArray = originalBuffer.attributes.normal.array;
 
-        // get face vertex positions
         const faceVertexBase = faceIndex * 3;
-        tmpOrigin.fromArray(origPosArray, origIndexArray[faceVertexBase] * 3);
-        tmpU.fromArray(origPosArray, origIndexArray[faceVertexBase + 1] * 3);
-        tmpV.fromArray(origPosArray, origIndexArray[faceVertexBase + 2] * 3);
-
-        // compute face dimensions
-        tmpU.sub(tmpOrigin);
-        tmpV.sub(tmpOrigin);
-
-        // set camera to match texel, first in mesh-local space
-        tmpOrigin.addScaledVector(tmpU, pU);
-        tmpOrigin.addScaledVector(tmpV, pV);
-
-        // get precomputed normal and cardinal directions
-        tmpNormal.fromArray(normalArray, faceVertexBase * 3);
-        tmpU.fromArray(normalArray, (faceVertexBase + 1) * 3);
-        tmpV.fromArray(normalArray, (faceVertexBase + 2) * 3);
+        const origFaceVertexBase = (faceStart + faceIndex) * 3;
+
+        if (smoothNormals) {
+          // blend vertex normals using same barycentric weights as position
+          tmpNormal.fromArray(
+            origNormalArray,
+            origIndexArray[origFaceVertexBase] * 3
+          );
+          tmpNormalU.fromArray(
+            origNormalArray,
+            origIndexArray[origFaceVertexBase + 1] * 3
+          );
+          tmpNormalV.fromArray(
+            origNormalArray,
+            origIndexArray[origFaceVertexBase + 2] * 3
+          );
+
+          tmpNormal.multiplyScalar(1 - pU - pV);
+          tmpNormal.addScaledVector(tmpNormalU, pU);
+          tmpNormal.addScaledVector(tmpNormalV, pV);
+          tmpNormal.normalize();
+
+          computeNormalCardinalDirections(tmpNormal, tmpU, tmpV);
+        } else {
+          // get precomputed normal and cardinal directions
+          tmpNormal.fromArray(normalArray, faceVertexBase * 3);
+          tmpU.fromArray(normalArray, (faceVertexBase + 1) * 3);
+          tmpV.fromArray(normalArray, (faceVertexBase + 2) * 3);
+        }
 
         setUpProbeUp(probeCam, originalMesh, tmpOrigin, tmpNormal, tmpU);
         probeTarget.viewport.set(
@@ -245,6 +298,7 @@ export function useLightProbe(
           probeTargetSize
         );
         gl.render(lightScene, probeCam);
+        batchCameraMatrices[batchItem * 5].copy(probeCam.matrixWorld);
 
         // sides only need the upper half of rendered view, so we set scissor accordingly
         setUpProbeSide(probeCam, originalMesh, tmpOrigin, tmpNormal, tmpU, 1);
@@ -261,6 +315,7 @@ export function useLightProbe(
           halfSize
         );
         gl.render(lightScene, probeCam);
+        batchCameraMatrices[batchItem * 5 + 1].copy(probeCam.matrixWorld);
 
         setUpProbeSide(probeCam, originalMesh, tmpOrigin, tmpNormal, tmpU, -1);
         probeTarget.viewport.set(
@@ -276,6 +331,7 @@ export function useLightProbe(
           halfSize
         );
         gl.render(lightScene, probeCam);
+        batchCameraMatrices[batchItem * 5 + 2].copy(probeCam.matrixWorld);
 
         setUpProbeSide(probeCam, originalMesh, tmpOrigin, tmpNormal, tmpV, 1);
         probeTarget.viewport.set(
@@ -291,6 +347,7 @@ export function useLightProbe(
           halfSize
         );
         gl.render(lightScene, probeCam);
+        batchCameraMatrices[batchItem * 5 + 3].copy(probeCam.matrixWorld);
 
         setUpProbeSide(probeCam, originalMesh, tmpOrigin, tmpNormal, tmpV, -1);
         probeTarget.viewport.set(
@@ -306,6 +363,7 @@ export function useLightProbe(
           halfSize
         );
         gl.render(lightScene, probeCam);
+        batchCameraMatrices[batchItem * 5 + 4].copy(probeCam.matrixWorld);
       });
 
       // if nothing was rendered there is no need to finish the batch
@@ -328,7 +386,7 @@ export function useLightProbe(
     gl.setRenderTarget(null);
 
     // if something was rendered, send off the data for consumption
-    for (let batchItem = 0; batchItem < PROBE_BATCH_COUNT; batchItem += 1) {
+    for (let batchItem = 0; batchItem < probeBatchCount; batchItem += 1) {
       const renderedTexelIndex = batchTexels[batchItem];
 
       // see if the batch ended early
@@ -347,10 +405,24 @@ export function useLightProbe(
           probeTargetSize,
           probeTargetSize
         );
-        handleProbeData(probeData, rowPixelStride, tmpProbeBox, 0, 0);
+        handleProbeData(
+          probeData,
+          rowPixelStride,
+          tmpProbeBox,
+          0,
+          0,
+          batchCameraMatrices[batchItem * 5]
+        );
 
         tmpProbeBox.set(0, batchOffsetY + halfSize, probeTargetSize, halfSize);
-        handleProbeData(probeData, rowPixelStride, tmpProbeBox, 0, halfSize);
+        handleProbeData(
+          probeData,
+          rowPixelStride,
+          tmpProbeBox,
+          0,
+          halfSize,
+          batchCameraMatrices[batchItem * 5 + 1]
+        );
 
         tmpProbeBox.set(
           probeTargetSize,
@@ -358,7 +430,14 @@ export function useLightProbe(
           probeTargetSize,
           halfSize
         );
-        handleProbeData(probeData, rowPixelStride, tmpProbeBox, 0, halfSize);
+        handleProbeData(
+          probeData,
+          rowPixelStride,
+          tmpProbeBox,
+          0,
+          halfSize,
+          batchCameraMatrices[batchItem * 5 + 2]
+        );
 
         tmpProbeBox.set(
           probeTargetSize * 2,
@@ -366,7 +445,14 @@ export function useLightProbe(
           probeTargetSize,
           halfSize
         );
-        handleProbeData(probeData, rowPixelStride, tmpProbeBox, 0, halfSize);
+        handleProbeData(
+          probeData,
+          rowPixelStride,
+          tmpProbeBox,
+          0,
+          halfSize,
+          batchCameraMatrices[batchItem * 5 + 3]
+        );
 
         tmpProbeBox.set(
           probeTargetSize * 3,
@@ -374,7 +460,14 @@ export function useLightProbe(
           probeTargetSize,
           halfSize
         );
-        handleProbeData(probeData, rowPixelStride, tmpProbeBox, 0, halfSize);
+        handleProbeData(
+          probeData,
+          rowPixelStride,
+          tmpProbeBox,
+          0,
+          halfSize,
+          batchCameraMatrices[batchItem * 5 + 4]
+        );
       });
     }
   };
@@ -382,6 +475,7 @@ export function useLightProbe(
   return {
     renderLightProbeBatch,
     probePixelAreaLookup,
+    probePixelDirectionLookup,
     debugLightProbeTexture: probeTarget.texture
   };
 }
@@ -0,0 +1,122 @@
+import * as THREE from 'three';
+
+import {
+  createProcessingState,
+  startNextPass,
+  claimPassFinalization,
+  createProgressiveTexelOrder,
+  fillProgressivePreview
+} from './IrradianceRenderer';
+import { encodeAtlasMapTexel, AtlasMap } from './IrradianceAtlasMapper';
+
+describe('bake pass processing', () => {
+  it('finalizes each pass once even with several work calls per frame', () => {
+    const passCount = 3;
+    const totalTexelCount = 16;
+    const passStats: number[] = [];
+
+    let processingState = createProcessingState(passCount);
+
+    while (
+      !(processingState.passesRemaining === 0 && processingState.passComplete)
+    ) {
+      // new pass is set up in a separate effect after the frame
+      if (processingState.passComplete) {
+        processingState = startNextPass(processingState);
+        continue;
+      }
+
+      // work manager calls the job twice per frame before state updates land
+      const frameState = processingState;
+      let passComplete = false;
+      for (let workCall = 0; workCall < 2; workCall += 1) {
+        frameState.passTexelCounter[0] = totalTexelCount;
+
+        if (claimPassFinalization(frameState, totalTexelCount)) {
+          passStats.push(passStats.length);
+          passComplete = true;
+        }
+      }
+
+      if (passComplete) {
+        processingState = { ...frameState, passComplete: true };
+      }
+    }
+
+    expect(passStats.length).toBe(passCount);
+  });
+
+  it('waits for all texels before finalizing', () => {
+    const processingState = startNextPass(createProcessingState(1));
+    processingState.passTexelCounter[0] = 15;
+
+    expect(claimPassFinalization(processingState, 16)).toBe(false);
+
+    processingState.passTexelCounter[0] = 16;
+    expect(claimPassFinalization(processingState, 16)).toBe(true);
+    expect(claimPassFinalization(processingState, 16)).toBe(false);
+  });
+});
+
+describe('progressive texel order', () => {
+  it('visits every texel on every page exactly once', () => {
+    const order = createProgressiveTexelOrder(20, 12, 3);
+
+    const sortedOrder = Array.from(order).sort((a, b) => a - b);
+    expect(sortedOrder).toEqual(
+      Array.from({ length: 20 * 12 * 3 }, (_, texelIndex) => texelIndex)
+    );
+  });
+
+  it('covers all pages coarsely before filling in', () => {
+    const order = Array.from(createProgressiveTexelOrder(20, 12, 3));
+
+    const secondPageStart = order.indexOf(20 * 12);
+    const firstPageFineTexel = order.indexOf(1);
+    expect(secondPageStart).toBeLessThan(firstPageFineTexel);
+  });
+});
+
+describe('progressive preview', () => {
+  function setOutputTexel(
+    data: Float32Array,
+    x: number,
+    y: number,
+    value: number
+  ) {
+    data.set([value, value, value, 1], (y * 8 + x) * 4);
+  }
+
+  function getOutputTexel(data: Float32Array, x: number, y: number) {
+    const texelBase = (y * 8 + x) * 4;
+    return Array.from(data.subarray(texelBase, texelBase + 4));
+  }
+
+  it('fills only uncomputed texels that the atlas covers', () => {
+    const atlasMap: AtlasMap = {
+      width: 8,
+      height: 8,
+      items: [],
+      data: new Float32Array(8 * 8 * 4),
+      texture: new THREE.Texture()
+    };
+    for (let texelIndex = 0; texelIndex < 8 * 8; texelIndex += 1) {
+      // leave one texel uncovered
+      if (texelIndex !== 3 * 8 + 3) {
+        encodeAtlasMapTexel(atlasMap.data, texelIndex, 0, 0, 0.5, 0.5);
+      }
+    }
+
+    const outputData = new Float32Array(8 * 8 * 4);
+    setOutputTexel(outputData, 2, 2, 0.75);
+    setOutputTexel(outputData, 0, 0, 0.25);
+
+    // coarsest grid texel spreads over the whole 8x8 cell
+    fillProgressivePreview(outputData, atlasMap, 0);
+
+    expect(getOutputTexel(outputData, 0, 0)).toEqual([0.25, 0.25, 0.25, 1]);
+    expect(getOutputTexel(outputData, 7, 7)).toEqual([0.25, 0.25, 0.25, 0]);
+    expect(getOutputTexel(outputData, 2, 2)).toEqual([0.75, 0.75, 0.75, 1]);
+    expect(getOutputTexel(outputData, 3, 3)).toEqual([0, 0, 0, 0]);
+  });
+});
@@ -14,12 +14,17 @@ import {
 } from 'react-three-fiber';
 import * as THREE from 'three';
 
-import { useIrradianceAtlasContext, Atlas } from './IrradianceSurfaceManager';
+import {
+  useIrradianceAtlasContext,
+  Atlas,
+  AtlasLight,
+  AtlasSceneItem,
+  AtlasSky
+} from './IrradianceSurfaceManager';
 import { WorkManagerContext } from './WorkManager';
 import {
-  atlasWidth,
-  atlasHeight,
-  MAX_ITEM_FACES,
+  decodeAtlasMapTexel,
+  AtlasMapTexel,
   AtlasMap,
   AtlasMapItem
 } from './IrradianceAtlasMapper';
@@ -30,11 +35,39 @@ import {
   useLightProbe
 } from './IrradianceLightProbe';
 import { DebugMaterial } from './DebugMaterial';
-
-const MAX_PASSES = 2;
-const EMISSIVE_MULTIPLIER = 32; // global conversion of display -> physical emissiveness
+import { dilateOutput, denoiseOutput } from './IrradianceFilters';
+import {
+  findAtlasSeams,
+  findAtlasCharts,
+  stitchSeams
+} from './IrradianceSeams';
+import {
+  getTexelWorldPoint,
+  addAreaLightIrradiance,
+  raycastOccluder
+} from './IrradianceAreaLight';
+import { createSkyMesh } from './IrradianceSky';
+import { BakeSettings, DEFAULT_BAKE_SETTINGS } from './IrradianceBakeSettings';
+import {
+  isSceneItemChanged,
+  trackSceneItem,
+  computeDirtyTexelMask,
+  TrackedSceneItem
+} from './IrradianceChangeTracker';
 
 const tmpRgba = [0, 0, 0, 0];
+const tmpDirection = [0, 0, 0, 0];
+const tmpAxisX = new THREE.Vector3();
+const tmpAxisY = new THREE.Vector3();
+const tmpAxisZ = new THREE.Vector3();
+const tmpTexelPosition = new THREE.Vector3();
+const tmpTexelNormal = new THREE.Vector3();
+const tmpTexel: AtlasMapTexel = {
+  itemIndex: 0,
+  faceIndex: 0,
+  faceU: 0,
+  faceV: 0
+};
 
 export interface IrradianceStagingTimelineMesh {
   uuid: string;
@@ -47,72 +80,226 @@ export interface IrradianceStagingTimeline {
   meshes: IrradianceStagingTimelineMesh[];
 }
 
+// view of the original buffer limited to one geometry group (vertex data is shared)
+function createGroupBuffer(
+  buffer: THREE.Geometry | THREE.BufferGeometry,
+  indexRange: { start: number; count: number }
+) {
+  if (!(buffer instanceof THREE.BufferGeometry)) {
+    throw new Error('expected buffer geometry');
+  }
+
+  const groupBuffer = new THREE.BufferGeometry();
+
+  for (const name of Object.keys(buffer.attributes)) {
+    groupBuffer.setAttribute(name, buffer.attributes[name]);
+  }
+
+  groupBuffer.setIndex(buffer.index);
+  groupBuffer.setDrawRange(indexRange.start, indexRange.count);
+
+  return groupBuffer;
+}
+
+// clone of the light with its shadow settings, placed at world transform
+// (we don't bother re-creating scene hierarchy)
+function getLightProbeSceneLightElement(light: AtlasLight) {
+  // area lights are added directly into output instead (see addAreaLightIrradiance)
+  if (light instanceof THREE.RectAreaLight) {
+    return null;
+  }
+
+  if (light instanceof THREE.DirectionalLight) {
+    const cloneLight = new THREE.DirectionalLight();
+    const cloneTarget = new THREE.Object3D();
+
+    cloneLight.matrix.copy(light.matrixWorld);
+    cloneLight.matrixAutoUpdate = false;
+    cloneTarget.matrix.copy(light.target.matrixWorld);
+    cloneTarget.matrixAutoUpdate = false;
+
+    // @todo assert that original light casts shadows, etc
+    return (
+      <React.Fragment key={light.uuid}>
+        <primitive object={cloneTarget} />
+
+        <primitive
+          object={cloneLight}
+          color={light.color}
+          intensity={light.intensity}
+          target={cloneTarget}
+          castShadow
+        >
+          <directionalLightShadow
+            attach="shadow"
+            camera-left={light.shadow.camera.left}
+            camera-right={light.shadow.camera.right}
+            camera-top={light.shadow.camera.top}
+            camera-bottom={light.shadow.camera.bottom}
+          />
+        </primitive>
+      </React.Fragment>
+    );
+  }
+
+  if (light instanceof THREE.SpotLight) {
+    const cloneLight = new THREE.SpotLight();
+    const cloneTarget = new THREE.Object3D();
+
+    cloneLight.matrix.copy(light.matrixWorld);
+    cloneLight.matrixAutoUpdate = false;
+    cloneTarget.matrix.copy(light.target.matrixWorld);
+    cloneTarget.matrixAutoUpdate = false;
+
+    return (
+      <React.Fragment key={light.uuid}>
+        <primitive object={cloneTarget} />
+
+        <primitive
+          object={cloneLight}
+          color={light.color}
+          intensity={light.intensity}
+          distance={light.distance}
+          decay={light.decay}
+          angle={light.angle}
+          penumbra={light.penumbra}
+          target={cloneTarget}
+          castShadow
+          shadow-bias={light.shadow.bias}
+          shadow-radius={light.shadow.radius}
+          shadow-mapSize-width={light.shadow.mapSize.width}
+          shadow-mapSize-height={light.shadow.mapSize.height}
+          shadow-camera-near={light.shadow.camera.near}
+          shadow-camera-far={light.shadow.camera.far}
+        />
+      </React.Fragment>
+    );
+  }
+
+  const cloneLight = new THREE.PointLight();
+
+  cloneLight.matrix.copy(light.matrixWorld);
+  cloneLight.matrixAutoUpdate = false;
+
+  return (
+    <primitive
+      key={light.uuid}
+      object={cloneLight}
+      color={light.color}
+      intensity={light.intensity}
+      distance={light.distance}
+      decay={light.decay}
+      castShadow
+      shadow-bias={light.shadow.bias}
+      shadow-radius={light.shadow.radius}
+      shadow-mapSize-width={light.shadow.mapSize.width}
+      shadow-mapSize-height={light.shadow.mapSize.height}
+      shadow-camera-near={light.shadow.camera.near}
+      shadow-camera-far={light.shadow.camera.far}
+    />
+  );
+}
+
+// ambient occlusion backdrop
+const AO_SKY: AtlasSky = {
+  color: new THREE.Color(0xffffff),
+  groundColor: null,
+  environmentMap: null,
+  intensity: 1
+};
+
+// plain black occluder, cut off by distance from the probe
+// (probe far plane only clips by view depth, which reaches further in the corners)
+const aoOccluderVertexShader = `
+  varying vec3 vViewPosition;
+
+  void main() {
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    vViewPosition = mvPosition.xyz;
+
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+const aoOccluderFragmentShader = `
+  uniform float aoDistance;
+
+  varying vec3 vViewPosition;
+
+  void main() {
+    if (length(vViewPosition) > aoDistance) {
+      discard;
+    }
+
+    gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0);
+  }
+`;
+
 // @todo move into surface manager?
 function getLightProbeSceneElement(
   atlas: Atlas,
-  lastTexture: THREE.Texture,
+  atlasMaps: AtlasMap[],
+  lastTextures: THREE.Texture[],
   activeFactorName: string | null,
-  animationTime: number
+  animationTime: number,
+  emissiveMultiplier: number,
+  aoDistance: number | null, // set only in ambient occlusion mode
+  posedMeshes: Map<THREE.Mesh, THREE.Object3D> // filled in with light scene clones
 ) {
-  const { lightSceneItems, lightSceneLights } = atlas;
+  const { lightSceneItems, lightSceneLights, lightSceneSkies } = atlas;
+  const ambientOcclusion = aoDistance !== null;
+
+  // find which atlas page holds each lightmapped mesh
+  const meshPageIndex = new Map<THREE.Mesh, number>();
+  atlasMaps.forEach((atlasMap, pageIndex) => {
+    for (const atlasItem of atlasMap.items) {
+      meshPageIndex.set(atlasItem.originalMesh, pageIndex);
+    }
+  });
 
   return (
     <scene
       key={`light-scene-${Math.random()}`} // ensure scene is fully re-created
     >
-      {lightSceneLights.map(({ dirLight, factorName }) => {
-        if (factorName !== activeFactorName) {
+      {ambientOcclusion ? (
+        // unoccluded rays all see the same white sky (lights are not used)
+        <primitive object={createSkyMesh(AO_SKY)} />
+      ) : null}
+
+      {lightSceneSkies.map(({ sky, factorName }, skyIndex) => {
+        if (ambientOcclusion || factorName !== activeFactorName) {
           return null;
         }
 
-        const cloneLight = new THREE.DirectionalLight();
-        const cloneTarget = new THREE.Object3D();
-
-        // apply world transform (we don't bother re-creating scene hierarchy)
-        cloneLight.matrix.copy(dirLight.matrixWorld);
-        cloneLight.matrixAutoUpdate = false;
-        cloneTarget.matrix.copy(dirLight.target.matrixWorld);
-        cloneTarget.matrixAutoUpdate = false;
-
-        // @todo assert that original light casts shadows, etc
+        // shown wherever probe rays escape the scene
         return (
-          <React.Fragment key={dirLight.uuid}>
-            <primitive object={cloneTarget} />
-
-            <primitive
-              object={cloneLight}
-              color={dirLight.color}
-              intensity={dirLight.intensity}
-              target={cloneTarget}
-              castShadow
-            >
-              <directionalLightShadow
-                attach="shadow"
-                camera-left={dirLight.shadow.camera.left}
-                camera-right={dirLight.shadow.camera.right}
-                camera-top={dirLight.shadow.camera.top}
-                camera-bottom={dirLight.shadow.camera.bottom}
-              />
-            </primitive>
-          </React.Fragment>
+          <primitive key={`sky-${skyIndex}`} object={createSkyMesh(sky)} />
         );
       })}
 
+      {lightSceneLights.map(({ light, factorName }) => {
+        if (ambientOcclusion || factorName !== activeFactorName) {
+          return null;
+        }
+
+        return getLightProbeSceneLightElement(light);
+      })}
+
       {lightSceneItems.map((item, itemIndex) => {
         const {
           mesh,
           buffer,
-          albedo,
-          albedoMap,
-          emissive,
-          emissiveIntensity,
-          emissiveMap,
+          material,
           factorName,
-          animationClip
+          animationClip,
+          indexRange
         } = item;
 
         // new mesh instance reusing existing geometry object directly, while material is set later
-        const cloneMesh = new THREE.Mesh(buffer);
+        // (geometry groups get a lightweight copy that only draws their own faces)
+        const cloneMesh = new THREE.Mesh(
+          indexRange ? createGroupBuffer(buffer, indexRange) : buffer
+        );
 
         if (animationClip) {
           // source parameters from animation, if given
@@ -127,9 +314,16 @@ function getLightProbeSceneElement(
           cloneMesh.matrixAutoUpdate = false;
         }
 
+        // texel positions and shadow rays both follow the baked pose
+        cloneMesh.raycast = raycastOccluder;
+        posedMeshes.set(mesh, cloneMesh);
+
         // remove emissive effect if active factor does not match
         const activeEmissiveIntensity =
-          factorName === activeFactorName ? emissiveIntensity : 0;
+          factorName === activeFactorName ? material.emissiveIntensity : 0;
+
+        // only light if present in atlas
+        const pageIndex = meshPageIndex.get(mesh);
 
         // let the object be auto-disposed of
         // @todo properly clone shadow props
@@ -140,21 +334,34 @@ function getLightProbeSceneElement(
             castShadow
             receiveShadow
           >
-            <meshLambertMaterial
-              attach="material"
-              color={albedo}
-              map={albedoMap}
-              emissive={emissive}
-              emissiveMap={emissiveMap}
-              emissiveIntensity={
-                // apply physics multiplier to any display emissive quantity
-                // (emission needs to be strong for bounces to work, but that would wash out colours
-                // if output directly from visible scene's shader)
-                EMISSIVE_MULTIPLIER * activeEmissiveIntensity
-              }
-              lightMap={albedoMap ? lastTexture : undefined} // only light if has UV
-              toneMapped={false} // must output in raw linear space
-            />
+            {ambientOcclusion ? (
+              // plain occluder, seen from either side
+              <shaderMaterial
+                attach="material"
+                uniforms={{ aoDistance: { value: aoDistance } }}
+                vertexShader={aoOccluderVertexShader}
+                fragmentShader={aoOccluderFragmentShader}
+                side={THREE.DoubleSide}
+              />
+            ) : (
+              <meshLambertMaterial
+                attach="material"
+                color={material.color}
+                map={material.map || undefined}
+                emissive={material.emissive}
+                emissiveMap={material.emissiveMap || undefined}
+                emissiveIntensity={
+                  // apply physics multiplier to any display emissive quantity
+                  // (emission needs to be strong for bounces to work, but that would wash out colours
+                  // if output directly from visible scene's shader)
+                  emissiveMultiplier * activeEmissiveIntensity
+                }
+                lightMap={
+                  pageIndex !== undefined ? lastTextures[pageIndex] : undefined
+                }
+                toneMapped={false} // must output in raw linear space
+              />
+            )}
           </primitive>
         );
       })}
@@ -185,6 +392,28 @@ function createOutputTexture(
   return [texture, data];
 }
 
+// single-channel output for ambient occlusion (same layout as the main output)
+function createOcclusionTexture(
+  atlasWidth: number,
+  atlasHeight: number
+): [THREE.Texture, Float32Array] {
+  const data = new Float32Array(atlasWidth * atlasHeight);
+
+  const texture = new THREE.DataTexture(
+    data,
+    atlasWidth,
+    atlasHeight,
+    THREE.LuminanceFormat,
+    THREE.FloatType
+  );
+
+  texture.magFilter = THREE.NearestFilter;
+  texture.minFilter = THREE.NearestFilter;
+  texture.generateMipmaps = false;
+
+  return [texture, data];
+}
+
 function clearOutputTexture(
   atlasWidth: number,
   atlasHeight: number,
@@ -216,44 +445,164 @@ function clearOutputTexture(
   }
 }
 
-function queueTexel(
+// coarsest sample grid spacing in progressive mode
+const PROGRESSIVE_MAX_STEP = 8;
+
+// grid spacing of the coarsest progressive level that includes this texel
+function getProgressiveStep(x: number, y: number) {
+  let step = PROGRESSIVE_MAX_STEP;
+  while (step > 1 && (x % step !== 0 || y % step !== 0)) {
+    step /= 2;
+  }
+  return step;
+}
+
+// coarse-to-fine visiting order of all texels: sparse grid across every page first,
+// then progressively filling in between
+export function createProgressiveTexelOrder(
+  atlasWidth: number,
+  atlasHeight: number,
+  pageCount: number
+) {
+  const pageTexelCount = atlasWidth * atlasHeight;
+  const order = new Uint32Array(pageTexelCount * pageCount);
+  let orderIndex = 0;
+
+  for (let step = PROGRESSIVE_MAX_STEP; step >= 1; step /= 2) {
+    for (let pageIndex = 0; pageIndex < pageCount; pageIndex += 1) {
+      for (let y = 0; y < atlasHeight; y += step) {
+        for (let x = 0; x < atlasWidth; x += step) {
+          if (getProgressiveStep(x, y) !== step) {
+            continue;
+          }
+
+          order[orderIndex] = pageIndex * pageTexelCount + y * atlasWidth + x;
+          orderIndex += 1;
+        }
+      }
+    }
+  }
+
+  return order;
+}
+
+// spread a freshly computed value over the rest of its progressive grid cell
+// as a preview; only texels that are not computed yet and are covered by the atlas are touched,
+// and they keep zero alpha so that later passes/filters still treat them as empty
+export function fillProgressivePreview(
+  outputData: Float32Array,
   atlasMap: AtlasMap,
+  pageTexelIndex: number
+) {
+  const { width, height, data: atlasData } = atlasMap;
+  const x = pageTexelIndex % width;
+  const y = Math.floor(pageTexelIndex / width);
+  const step = getProgressiveStep(x, y);
+
+  const sourceBase = pageTexelIndex * 4;
+  const maxY = Math.min(height, y + step);
+  const maxX = Math.min(width, x + step);
+
+  for (let fillY = y; fillY < maxY; fillY += 1) {
+    for (let fillX = x; fillX < maxX; fillX += 1) {
+      const fillBase = (fillY * width + fillX) * 4;
+
+      if (outputData[fillBase + 3] > 0 || atlasData[fillBase + 3] === 0) {
+        continue;
+      }
+
+      outputData[fillBase] = outputData[sourceBase];
+      outputData[fillBase + 1] = outputData[sourceBase + 1];
+      outputData[fillBase + 2] = outputData[sourceBase + 2];
+    }
+  }
+}
+
+// change in output between consecutive passes (computed texels only)
+export interface BakePassStats {
+  passIndex: number;
+  meanDelta: number; // average absolute per-channel change
+  maxDelta: number;
+  relativeDelta: number; // total change relative to total output value
+}
+
+function computePassStats(
+  activeOutputs: [THREE.Texture, Float32Array][],
+  previousOutputs: [THREE.Texture, Float32Array][],
+  passIndex: number,
+  dirtyMask: Uint8Array | null // only these texels are counted, if given
+): BakePassStats {
+  let deltaSum = 0;
+  let maxDelta = 0;
+  let valueSum = 0;
+  let channelCount = 0;
+
+  activeOutputs.forEach(([, activeOutputData], pageIndex) => {
+    const [, previousOutputData] = previousOutputs[pageIndex];
+    const pageTexelOffset = (pageIndex * activeOutputData.length) / 4;
+
+    for (let base = 0; base < activeOutputData.length; base += 4) {
+      if (activeOutputData[base + 3] <= 0) {
+        continue;
+      }
+
+      if (dirtyMask && !dirtyMask[pageTexelOffset + base / 4]) {
+        continue;
+      }
+
+      for (let channel = 0; channel < 3; channel += 1) {
+        const value = activeOutputData[base + channel];
+        const delta = Math.abs(value - previousOutputData[base + channel]);
+
+        deltaSum += delta;
+        maxDelta = Math.max(maxDelta, delta);
+        valueSum += Math.abs(value);
+        channelCount += 1;
+      }
+    }
+  });
+
+  return {
+    passIndex,
+    meanDelta: channelCount > 0 ? deltaSum / channelCount : 0,
+    maxDelta,
+    relativeDelta: valueSum > 0 ? deltaSum / valueSum : 0
+  };
+}
+
+// texel index runs through all atlas pages in sequence
+function queueTexel(
+  atlasMaps: AtlasMap[],
   texelIndex: number,
   renderLightProbe: ProbeBatchRenderer
 ): boolean {
-  // get current atlas face we are filling up
-  const texelInfoBase = texelIndex * 4;
-  const texelPosU = atlasMap.data[texelInfoBase];
-  const texelPosV = atlasMap.data[texelInfoBase + 1];
-  const texelFaceEnc = atlasMap.data[texelInfoBase + 2];
+  const pageTexelCount = atlasMaps[0].width * atlasMaps[0].height;
+  const atlasMap = atlasMaps[Math.floor(texelIndex / pageTexelCount)];
+  const pageTexelIndex = texelIndex % pageTexelCount;
 
-  // skip computation if this texel is empty
-  if (texelFaceEnc === 0) {
+  // get current atlas face we are filling up
+  // and skip computation if this texel is empty
+  if (!decodeAtlasMapTexel(atlasMap.data, pageTexelIndex, tmpTexel)) {
     return false;
   }
 
   // otherwise, proceed with computation and exit
-  const texelFaceIndexCombo = Math.round(texelFaceEnc - 1);
-  const texelFaceIndex = texelFaceIndexCombo % MAX_ITEM_FACES;
-  const texelItemIndex =
-    (texelFaceIndexCombo - texelFaceIndex) / MAX_ITEM_FACES;
+  const { itemIndex, faceIndex, faceU, faceV } = tmpTexel;
 
-  if (texelItemIndex < 0 || texelItemIndex >= atlasMap.items.length) {
-    throw new Error(
-      `incorrect atlas map item data: ${texelPosU}, ${texelPosV}, ${texelFaceEnc}`
-    );
+  if (itemIndex < 0 || itemIndex >= atlasMap.items.length) {
+    throw new Error(`incorrect atlas map item data: ${itemIndex}`);
   }
 
-  const atlasItem = atlasMap.items[texelItemIndex];
+  const atlasItem = atlasMap.items[itemIndex];
 
-  if (texelFaceIndex < 0 || texelFaceIndex >= atlasItem.faceCount) {
+  if (faceIndex < 0 || faceIndex >= atlasItem.faceCount) {
     throw new Error(
-      `incorrect atlas map face data: ${texelPosU}, ${texelPosV}, ${texelFaceEnc}`
+      `incorrect atlas map face data: ${itemIndex}, ${faceIndex}`
     );
   }
 
   // render the probe viewports (will read the data later)
-  renderLightProbe(texelIndex, atlasItem, texelFaceIndex, texelPosU, texelPosV);
+  renderLightProbe(texelIndex, atlasItem, faceIndex, faceU, faceV);
 
   // signal that computation happened
   return true;
@@ -307,16 +656,203 @@ function readTexel(
   rgba[3] = 1;
 }
 
-// offsets for 3x3 brush
-const offDirX = [1, 1, 0, -1, -1, -1, 0, 1];
-const offDirY = [0, 1, 1, 1, 0, -1, -1, -1];
+// luminance-weighted average of incoming ray directions (world space);
+// its length is the directionality (zero for perfectly even lighting, one for a single ray)
+function readTexelDirection(
+  direction: number[],
+  readLightProbe: ProbeBatchReader,
+  probePixelAreaLookup: number[],
+  probePixelDirectionLookup: number[]
+) {
+  let x = 0,
+    y = 0,
+    z = 0,
+    totalLuminance = 0;
+
+  readLightProbe(
+    (probeData, rowPixelStride, box, originX, originY, cameraMatrix) => {
+      const probeTargetSize = box.z; // assuming width is always full
+
+      // sum up in camera space first
+      let lx = 0,
+        ly = 0,
+        lz = 0;
+
+      const rowStride = rowPixelStride * 4;
+      let rowStart = box.y * rowStride + box.x * 4;
+      const totalMax = (box.y + box.w) * rowStride;
+      let py = originY;
+
+      while (rowStart < totalMax) {
+        const rowMax = rowStart + box.z * 4;
+        let px = originX;
+
+        for (let i = rowStart; i < rowMax; i += 4) {
+          const pixelIndex = py * probeTargetSize + px;
+          const luminance =
+            probePixelAreaLookup[pixelIndex] *
+            (0.2126 * probeData[i] +
+              0.7152 * probeData[i + 1] +
+              0.0722 * probeData[i + 2]);
+
+          lx += luminance * probePixelDirectionLookup[pixelIndex * 3];
+          ly += luminance * probePixelDirectionLookup[pixelIndex * 3 + 1];
+          lz += luminance * probePixelDirectionLookup[pixelIndex * 3 + 2];
+
+          totalLuminance += luminance;
+
+          px += 1;
+        }
+
+        rowStart += rowStride;
+        py += 1;
+      }
+
+      // convert to world space via camera axes (ignoring any mesh scale)
+      cameraMatrix.extractBasis(tmpAxisX, tmpAxisY, tmpAxisZ);
+      tmpAxisX.normalize();
+      tmpAxisY.normalize();
+      tmpAxisZ.normalize();
+
+      x += lx * tmpAxisX.x + ly * tmpAxisY.x + lz * tmpAxisZ.x;
+      y += lx * tmpAxisX.y + ly * tmpAxisY.y + lz * tmpAxisZ.y;
+      z += lx * tmpAxisX.z + ly * tmpAxisY.z + lz * tmpAxisZ.z;
+    }
+  );
+
+  const divider = totalLuminance > 0 ? totalLuminance : 1;
+  direction[0] = x / divider;
+  direction[1] = y / divider;
+  direction[2] = z / divider;
+  direction[3] = 1;
+}
+
+export interface BakeProgress {
+  passIndex: number;
+  passCount: number;
+  texelsDone: number; // within current pass, across all pages
+  texelsTotal: number;
+  elapsedTime: number; // milliseconds since bake start
+  remainingTime: number | null; // rough estimate in milliseconds, null until known
+}
+
+// simple holder for bake status display: pass the handler into onProgress prop
+export function useBakeProgress(): [
+  (progress: BakeProgress) => void,
+  BakeProgress | null
+] {
+  const [progress, setProgress] = useState<BakeProgress | null>(null);
+  return [setProgress, progress];
+}
+
+// imperative handle for the editor to interrupt long bakes
+export interface BakeControl {
+  pause: () => void; // keeps the current pass position
+  resume: () => void;
+  cancel: () => void; // stops and discards all progress
+  restart: () => void; // starts over from the first pass, even if paused or cancelled
+}
+
+type BakeStatus = 'running' | 'paused' | 'cancelled';
+
+// partial re-bake only visits texels flagged in the dirty mask
+export function createProcessingState(
+  passCount: number,
+  dirtyMask: Uint8Array | null = null
+) {
+  let texelList: Uint32Array | null = null;
+
+  if (dirtyMask) {
+    const dirtyIndexes: number[] = [];
+    dirtyMask.forEach((isDirty, texelIndex) => {
+      if (isDirty) {
+        dirtyIndexes.push(texelIndex);
+      }
+    });
+
+    texelList = new Uint32Array(dirtyIndexes);
+  }
+
+  return {
+    passTexelCounter: [0], // directly changed in place to avoid re-renders
+    passFinalized: [false], // same, set once end-of-pass processing is done
+    passComplete: true, // this triggers new pass on next render
+    passesRemaining: passCount,
+    dirtyMask,
+    texelList
+  };
+}
+
+type ProcessingState = ReturnType<typeof createProcessingState>;
+
+export function startNextPass(prev: ProcessingState): ProcessingState {
+  return {
+    ...prev,
+    passTexelCounter: [0],
+    passFinalized: [false],
+    passComplete: false,
+    passesRemaining: prev.passesRemaining - 1
+  };
+}
+
+// work callback keeps being called (several times per frame) until the next pass
+// is set up, so only the first call after the last texel gets to finalize the pass
+export function claimPassFinalization(
+  processingState: ProcessingState,
+  totalTexelCount: number
+): boolean {
+  const { passTexelCounter, passFinalized } = processingState;
+
+  if (passFinalized[0] || passTexelCounter[0] < totalTexelCount) {
+    return false;
+  }
+
+  passFinalized[0] = true;
+  return true;
+}
+
+// ambient occlusion needs just one pass, with probe range limited to occlusion distance
+// (occluders themselves are cut off radially, this just skips the rest of the scene)
+function getEffectiveSettings(
+  settings: BakeSettings,
+  aoDistance: number | null
+): BakeSettings {
+  if (aoDistance === null) {
+    return settings;
+  }
+
+  return { ...settings, passCount: 1, probeFar: aoDistance };
+}
 
+// bakes all atlas pages together, with one output texture per page
 const IrradianceRenderer: React.FC<{
-  atlasMap: AtlasMap;
+  atlasMaps: AtlasMap[];
   factorName: string | null;
   time?: number;
+  settings?: BakeSettings; // quality presets are in IrradianceBakeSettings
+  dilationRadius?: number; // texels to pad around computed areas after each pass
+  denoiseStrength?: number; // edge-aware smoothing after each pass (zero to disable)
+  seamStitching?: boolean; // match up texels across uv2 chart boundaries (on by default)
+  smoothNormals?: boolean; // orient probes by interpolated vertex normals instead of flat face
+  progressive?: boolean; // coarse-to-fine texel order with filled-in preview
+  directional?: boolean; // also bake dominant incoming light direction per texel
+  ambientOcclusion?: boolean; // bake occlusion only (single pass, no lights) into separate occlusion maps
+  aoDistance?: number; // occluders further than this do not count (default 1)
+  dirtyRadius?: number; // if set, re-bake around changed meshes within this world distance
   debugMesh?: THREE.Mesh;
-  children: (lightMap: THREE.Texture) => React.ReactElement | null;
+  controlRef?: React.MutableRefObject<BakeControl | undefined>; // filled on mount
+  onProgress?: (progress: BakeProgress) => void;
+  onComplete?: (
+    lightMaps: THREE.Texture[], // empty in ambient occlusion mode
+    lightMapData: Float32Array[],
+    passStats: BakePassStats[],
+    occlusionMapData: Float32Array[] // empty unless ambient occlusion is on
+  ) => void;
+  children: (
+    lightMaps: THREE.Texture[], // empty in ambient occlusion mode
+    directionMaps: THREE.Texture[], // empty unless directional output is on
+    occlusionMaps: THREE.Texture[] // empty unless ambient occlusion is on
+  ) => React.ReactElement | null;
 }> = (props) => {
   // get the work manager hook
   const useWorkManager = useContext(WorkManagerContext);
@@ -324,119 +860,438 @@ const IrradianceRenderer: React.FC<{
     throw new Error('expected work manager');
   }
 
+  // bake inputs (changing these restarts the bake from scratch)
+  const { atlasMaps, factorName } = props;
+  const animationTime = props.time || 0;
+
   // wrap params in ref to avoid unintended re-triggering
-  const atlasMapRef = useRef(props.atlasMap); // read once
-  const factorNameRef = useRef(props.factorName); // read once
-  const animationTimeRef = useRef(props.time || 0); // read once
+  const smoothNormalsRef = useRef(!!props.smoothNormals); // read once
+  const ambientOcclusionRef = useRef(!!props.ambientOcclusion); // read once
+  const aoDistanceRef = useRef(
+    props.ambientOcclusion ? props.aoDistance || 1 : null
+  ); // read once
+  const settingsRef = useRef(
+    getEffectiveSettings(
+      props.settings || DEFAULT_BAKE_SETTINGS,
+      aoDistanceRef.current
+    )
+  ); // read once
+  const progressiveRef = useRef(!!props.progressive); // read once
+  const directionalRef = useRef(!!props.directional); // read once
+
+  // wrap latest callbacks in stable refs
+  const onProgressRef = useRef(props.onProgress);
+  onProgressRef.current = props.onProgress;
+  const onCompleteRef = useRef(props.onComplete);
+  onCompleteRef.current = props.onComplete;
+
+  // set when first texels are processed
+  const bakeStartTimeRef = useRef<number | null>(null);
+
+  // convergence info for each finished pass
+  const passStatsRef = useRef<BakePassStats[]>([]);
+
+  const dilationRadius =
+    props.dilationRadius === undefined ? 2 : props.dilationRadius;
+  const denoiseStrength = props.denoiseStrength || 0;
+  const seamStitching =
+    props.seamStitching === undefined ? true : props.seamStitching;
+
+  // output dimensions follow the atlas map (all pages are the same size)
+  const { width: atlasWidth, height: atlasHeight } = atlasMaps[0];
+  const pageCount = atlasMaps.length;
 
   const atlas = useIrradianceAtlasContext();
 
+  // chart boundary edges for each page (only depends on atlas layout)
+  const pageSeams = useMemo(() => atlasMaps.map(findAtlasSeams), [atlasMaps]);
+  const pageCharts = useMemo(() => atlasMaps.map(findAtlasCharts), [atlasMaps]);
+
   // output of the previous baking pass (applied to the light probe scene)
-  const [previousOutput, previousOutputData] = useMemo(
-    () => createOutputTexture(atlasWidth, atlasHeight),
-    []
-  );
+  const previousOutputs = useMemo(() => {
+    const outputs: [THREE.Texture, Float32Array][] = [];
+    for (let pageIndex = 0; pageIndex < pageCount; pageIndex += 1) {
+      outputs.push(createOutputTexture(atlasWidth, atlasHeight));
+    }
+    return outputs;
+  }, [pageCount, atlasWidth, atlasHeight]);
   useEffect(
     () => () => {
-      previousOutput.dispose();
+      for (const [previousOutput] of previousOutputs) {
+        previousOutput.dispose();
+      }
     },
-    [previousOutput]
+    [previousOutputs]
   );
 
   // currently produced output
   // this will be pre-filled with test pattern if needed on start of pass
-  const [activeOutput, activeOutputData] = useMemo(
-    () => createOutputTexture(atlasWidth, atlasHeight),
-    []
+  const activeOutputs = useMemo(() => {
+    const outputs: [THREE.Texture, Float32Array][] = [];
+    for (let pageIndex = 0; pageIndex < pageCount; pageIndex += 1) {
+      outputs.push(createOutputTexture(atlasWidth, atlasHeight));
+    }
+    return outputs;
+  }, [pageCount, atlasWidth, atlasHeight]);
+  useEffect(
+    () => () => {
+      for (const [activeOutput] of activeOutputs) {
+        activeOutput.dispose();
+      }
+    },
+    [activeOutputs]
+  );
+
+  // dominant light direction data, same layout as main output
+  // (only the latest pass is kept, bounces do not need it)
+  const directionOutputs = useMemo(() => {
+    const outputs: [THREE.Texture, Float32Array][] = [];
+    if (directionalRef.current) {
+      for (let pageIndex = 0; pageIndex < pageCount; pageIndex += 1) {
+        outputs.push(createOutputTexture(atlasWidth, atlasHeight));
+      }
+    }
+    return outputs;
+  }, [pageCount, atlasWidth, atlasHeight]);
+  useEffect(
+    () => () => {
+      for (const [directionOutput] of directionOutputs) {
+        directionOutput.dispose();
+      }
+    },
+    [directionOutputs]
   );
+
+  // occlusion value per texel (kept out of the colour lightmap outputs)
+  const occlusionOutputs = useMemo(() => {
+    const outputs: [THREE.Texture, Float32Array][] = [];
+    if (ambientOcclusionRef.current) {
+      for (let pageIndex = 0; pageIndex < pageCount; pageIndex += 1) {
+        outputs.push(createOcclusionTexture(atlasWidth, atlasHeight));
+      }
+    }
+    return outputs;
+  }, [pageCount, atlasWidth, atlasHeight]);
   useEffect(
     () => () => {
-      activeOutput.dispose();
+      for (const [occlusionOutput] of occlusionOutputs) {
+        occlusionOutput.dispose();
+      }
     },
-    [activeOutput]
+    [occlusionOutputs]
+  );
+
+  // visiting order of texels in each pass (null means plain scanline order)
+  const texelOrder = useMemo(
+    () =>
+      progressiveRef.current
+        ? createProgressiveTexelOrder(atlasWidth, atlasHeight, pageCount)
+        : null,
+    [atlasWidth, atlasHeight, pageCount]
+  );
+
+  // stable list for downstream consumers
+  const activeOutputTextures = useMemo(
+    () =>
+      ambientOcclusionRef.current
+        ? []
+        : activeOutputs.map(([activeOutput]) => activeOutput),
+    [activeOutputs]
+  );
+  const directionOutputTextures = useMemo(
+    () => directionOutputs.map(([directionOutput]) => directionOutput),
+    [directionOutputs]
+  );
+  const occlusionOutputTextures = useMemo(
+    () => occlusionOutputs.map(([occlusionOutput]) => occlusionOutput),
+    [occlusionOutputs]
   );
 
-  const withTestPattern = factorNameRef.current === null; // only base factor gets pattern
+  // only base factor gets pattern (occlusion is not a colour output)
+  const withTestPattern = factorName === null && !ambientOcclusionRef.current;
 
   const lightSceneRef = useRef<THREE.Scene>();
+  const lightScenePosedMeshesRef = useRef(
+    new Map<THREE.Mesh, THREE.Object3D>()
+  );
   const [
     lightSceneElement,
     setLightSceneElement
   ] = useState<React.ReactElement | null>(null);
 
-  const [processingState, setProcessingState] = useState(() => {
-    return {
-      passTexelCounter: [0], // directly changed in place to avoid re-renders
-      passComplete: true, // this triggers new pass on next render
-      passesRemaining: MAX_PASSES
+  const [processingState, setProcessingState] = useState(() =>
+    createProcessingState(settingsRef.current.passCount)
+  );
+
+  const [bakeStatus, setBakeStatus] = useState<BakeStatus>('running');
+  const pauseStartTimeRef = useRef<number | null>(null);
+
+  // debug probe is only rendered once per bake
+  const debugProbeRef = useRef(false);
+
+  // wipe all computed data
+  // (active output is what seeds the next pass, so it is cleared without test pattern)
+  const resetOutputs = useCallback(() => {
+    for (const [previousOutput, previousOutputData] of previousOutputs) {
+      previousOutputData.fill(0);
+      previousOutput.needsUpdate = true;
+    }
+
+    for (const [activeOutput, activeOutputData] of activeOutputs) {
+      activeOutputData.fill(0);
+      activeOutput.needsUpdate = true;
+    }
+
+    for (const [directionOutput, directionOutputData] of directionOutputs) {
+      directionOutputData.fill(0);
+      directionOutput.needsUpdate = true;
+    }
+
+    for (const [occlusionOutput, occlusionOutputData] of occlusionOutputs) {
+      occlusionOutputData.fill(0);
+      occlusionOutput.needsUpdate = true;
+    }
+  }, [previousOutputs, activeOutputs, directionOutputs, occlusionOutputs]);
+
+  // bake status is kept, so that a paused or cancelled bake stays that way
+  // when inputs change (only an explicit restart resumes it)
+  const restartBake = useCallback(() => {
+    resetOutputs();
+
+    bakeStartTimeRef.current = null;
+    pauseStartTimeRef.current = null;
+    passStatsRef.current = [];
+    debugProbeRef.current = false;
+
+    setProcessingState(createProcessingState(settingsRef.current.passCount));
+  }, [resetOutputs]);
+
+  // start over when bake inputs change (first render is already a fresh start)
+  const bakeInputsRef = useRef({ atlasMaps, factorName, animationTime });
+  useEffect(() => {
+    const prev = bakeInputsRef.current;
+    if (
+      prev.atlasMaps === atlasMaps &&
+      prev.factorName === factorName &&
+      prev.animationTime === animationTime
+    ) {
+      return;
+    }
+
+    bakeInputsRef.current = { atlasMaps, factorName, animationTime };
+    restartBake();
+  }, [atlasMaps, factorName, animationTime, restartBake]);
+
+  // expose imperative controls
+  const { controlRef } = props;
+  useEffect(() => {
+    if (!controlRef) {
+      return;
+    }
+
+    controlRef.current = {
+      pause: () => {
+        if (pauseStartTimeRef.current === null) {
+          pauseStartTimeRef.current = performance.now();
+        }
+
+        setBakeStatus((prev) => (prev === 'running' ? 'paused' : prev));
+      },
+      resume: () => {
+        // do not count paused time as part of the bake
+        if (
+          pauseStartTimeRef.current !== null &&
+          bakeStartTimeRef.current !== null
+        ) {
+          bakeStartTimeRef.current +=
+            performance.now() - pauseStartTimeRef.current;
+        }
+        pauseStartTimeRef.current = null;
+
+        setBakeStatus((prev) => (prev === 'paused' ? 'running' : prev));
+      },
+      cancel: () => {
+        resetOutputs();
+        setBakeStatus('cancelled');
+      },
+      restart: () => {
+        restartBake();
+        setBakeStatus('running');
+      }
     };
+
+    return () => {
+      controlRef.current = undefined;
+    };
+  }, [controlRef, resetOutputs, restartBake]);
+
+  // last seen state of scene items, for change tracking
+  const trackedItemsRef = useRef(new Map<AtlasSceneItem, TrackedSceneItem>());
+
+  // light scene needs re-creating to pick up changed transforms and materials
+  const [lightSceneVersion, setLightSceneVersion] = useState(0);
+
+  // re-queue only the texels affected by a scene change
+  // (bake status is kept, so a paused bake only picks them up on resume)
+  const rebakeTexels = useCallback((dirtyMask: Uint8Array) => {
+    const { passCount } = settingsRef.current;
+
+    bakeStartTimeRef.current = null;
+    passStatsRef.current = [];
+    setLightSceneVersion((prev) => prev + 1);
+
+    setProcessingState((prev) => {
+      const isIncomplete = !(prev.passesRemaining === 0 && prev.passComplete);
+
+      // interrupted full bake has to start over anyway
+      if (isIncomplete && !prev.dirtyMask) {
+        return createProcessingState(passCount);
+      }
+
+      // merge with any partial re-bake still in progress
+      if (isIncomplete && prev.dirtyMask) {
+        const prevMask = prev.dirtyMask;
+        dirtyMask.forEach((isDirty, texelIndex) => {
+          dirtyMask[texelIndex] = isDirty || prevMask[texelIndex];
+        });
+      }
+
+      return createProcessingState(passCount, dirtyMask);
+    });
+  }, []);
+
+  const { dirtyRadius } = props;
+  useFrame(() => {
+    if (dirtyRadius === undefined) {
+      return;
+    }
+
+    const trackedItems = trackedItemsRef.current;
+    const changedMeshes: THREE.Mesh[] = [];
+    const dirtyRegions: THREE.Box3[] = [];
+
+    for (const item of atlas.lightSceneItems) {
+      // animated items are posed separately in the light scene
+      if (item.animationClip) {
+        continue;
+      }
+
+      const tracked = trackedItems.get(item);
+      if (!tracked) {
+        trackedItems.set(item, trackSceneItem(item));
+        continue;
+      }
+
+      if (!isSceneItemChanged(item, tracked)) {
+        continue;
+      }
+
+      // affected area covers both old and new placement
+      const updated = trackSceneItem(item);
+      dirtyRegions.push(
+        tracked.bounds.clone().union(updated.bounds).expandByScalar(dirtyRadius)
+      );
+      changedMeshes.push(item.mesh);
+      trackedItems.set(item, updated);
+    }
+
+    if (changedMeshes.length > 0) {
+      rebakeTexels(
+        computeDirtyTexelMask(atlasMaps, changedMeshes, dirtyRegions)
+      );
+    }
   });
 
   // create light scene in separate render tick
   useEffect(() => {
+    // drop the stale scene right away so that no texels are computed against it
+    setLightSceneElement(null);
+
     // @todo for some reason the scene does not render unless created inside the timeout
     // (even though the atlas is already initialized/etc by now anyway)
-    setTimeout(() => {
+    const timeoutId = setTimeout(() => {
+      const posedMeshes = new Map<THREE.Mesh, THREE.Object3D>();
+      lightScenePosedMeshesRef.current = posedMeshes;
+
       setLightSceneElement(
         getLightProbeSceneElement(
           atlas,
-          previousOutput,
-          factorNameRef.current,
-          animationTimeRef.current
+          atlasMaps,
+          previousOutputs.map(([previousOutput]) => previousOutput),
+          factorName,
+          animationTime,
+          settingsRef.current.emissiveMultiplier,
+          aoDistanceRef.current,
+          posedMeshes
         )
       );
     }, 0);
-  }, [atlas, previousOutput]);
+
+    return () => {
+      clearTimeout(timeoutId);
+    };
+  }, [
+    atlas,
+    atlasMaps,
+    factorName,
+    animationTime,
+    previousOutputs,
+    lightSceneVersion
+  ]);
 
   // kick off new pass when current one is complete
   useEffect(() => {
-    const { passComplete, passesRemaining } = processingState;
+    const { passComplete, passesRemaining, dirtyMask } = processingState;
 
     // check if we need to set up new pass
     if (!passComplete || passesRemaining === 0) {
       return;
     }
 
-    // copy completed data
-    previousOutputData.set(activeOutputData);
-    previousOutput.needsUpdate = true;
-
-    // reset output (re-create test pattern only on base)
-    // @todo do this only when needing to show debug output?
-    clearOutputTexture(
-      atlasWidth,
-      atlasHeight,
-      activeOutputData,
-      withTestPattern
-    );
-    activeOutput.needsUpdate = true;
+    activeOutputs.forEach(([activeOutput, activeOutputData], pageIndex) => {
+      const [previousOutput, previousOutputData] = previousOutputs[pageIndex];
 
-    setProcessingState((prev) => {
-      return {
-        passTexelCounter: [0],
-        passComplete: false,
-        passesRemaining: prev.passesRemaining - 1
-      };
+      // copy completed data
+      previousOutputData.set(activeOutputData);
+      previousOutput.needsUpdate = true;
+
+      // partial re-bake keeps the rest of the lightmap intact
+      if (dirtyMask) {
+        return;
+      }
+
+      // reset output (re-create test pattern only on base)
+      // @todo do this only when needing to show debug output?
+      clearOutputTexture(
+        atlasWidth,
+        atlasHeight,
+        activeOutputData,
+        withTestPattern
+      );
+      activeOutput.needsUpdate = true;
     });
+
+    setProcessingState(startNextPass);
   }, [
+    atlasWidth,
+    atlasHeight,
     withTestPattern,
     processingState,
-    previousOutput,
-    previousOutputData,
-    activeOutput,
-    activeOutputData
+    previousOutputs,
+    activeOutputs
   ]);
 
-  const probeTargetSize = 16;
-  const { renderLightProbeBatch, probePixelAreaLookup } = useLightProbe(
-    probeTargetSize
-  );
+  const {
+    renderLightProbeBatch,
+    probePixelAreaLookup,
+    probePixelDirectionLookup
+  } = useLightProbe(settingsRef.current, smoothNormalsRef.current);
 
   const outputIsComplete =
     processingState.passesRemaining === 0 && processingState.passComplete;
 
   useWorkManager(
-    outputIsComplete
+    outputIsComplete || bakeStatus !== 'running'
       ? null
       : (gl) => {
           const lightScene = lightSceneRef.current;
@@ -444,10 +1299,41 @@ const IrradianceRenderer: React.FC<{
             return; // nothing to do yet
           }
 
-          const { passTexelCounter } = processingState;
+          // wait for restart to take effect if inputs just changed
+          if (bakeInputsRef.current.atlasMaps !== atlasMaps) {
+            return;
+          }
 
-          const atlasMap = atlasMapRef.current;
-          const totalTexelCount = atlasWidth * atlasHeight;
+          const {
+            passTexelCounter,
+            passesRemaining,
+            dirtyMask,
+            texelList
+          } = processingState;
+
+          if (bakeStartTimeRef.current === null) {
+            bakeStartTimeRef.current = performance.now();
+          }
+
+          const pageTexelCount = atlasWidth * atlasHeight;
+          const totalTexelCount = texelList
+            ? texelList.length
+            : pageTexelCount * pageCount;
+
+          // area lights of the active factor are evaluated per texel (not used for occlusion)
+          const areaLights: THREE.RectAreaLight[] = [];
+          for (const {
+            light,
+            factorName: lightFactorName
+          } of atlas.lightSceneLights) {
+            if (
+              !ambientOcclusionRef.current &&
+              light instanceof THREE.RectAreaLight &&
+              lightFactorName === factorName
+            ) {
+              areaLights.push(light);
+            }
+          }
 
           // allow for skipping a certain amount of empty texels
           const maxCounter = Math.min(
@@ -461,12 +1347,18 @@ const IrradianceRenderer: React.FC<{
             (renderBatchItem) => {
               // keep trying texels until non-empty one is found
               while (passTexelCounter[0] < maxCounter) {
-                const texelIndex = passTexelCounter[0];
+                const orderIndex = passTexelCounter[0];
 
                 // always update texel count
-                passTexelCounter[0] = texelIndex + 1;
+                passTexelCounter[0] = orderIndex + 1;
+
+                const texelIndex = texelList
+                  ? texelList[orderIndex]
+                  : texelOrder
+                  ? texelOrder[orderIndex]
+                  : orderIndex;
 
-                if (!queueTexel(atlasMap, texelIndex, renderBatchItem)) {
+                if (!queueTexel(atlasMaps, texelIndex, renderBatchItem)) {
                   continue;
                 }
 
@@ -477,59 +1369,214 @@ const IrradianceRenderer: React.FC<{
             (texelIndex, readLightProbe) => {
               readTexel(tmpRgba, readLightProbe, probePixelAreaLookup);
 
+              // find the page this texel belongs to
+              const pageIndex = Math.floor(texelIndex / pageTexelCount);
+              const pageTexelIndex = texelIndex % pageTexelCount;
+              const [activeOutput, activeOutputData] = activeOutputs[pageIndex];
+
+              // add direct light from area lights on top of the probe result
+              if (
+                areaLights.length > 0 &&
+                getTexelWorldPoint(
+                  atlasMaps[pageIndex],
+                  pageTexelIndex,
+                  lightScenePosedMeshesRef.current,
+                  tmpTexelPosition,
+                  tmpTexelNormal
+                )
+              ) {
+                addAreaLightIrradiance(
+                  tmpRgba,
+                  areaLights,
+                  tmpTexelPosition,
+                  tmpTexelNormal,
+                  lightScene,
+                  settingsRef.current.areaLightSampleGrid
+                );
+              }
+
               // store computed illumination value
-              activeOutputData.set(tmpRgba, texelIndex * 4);
-
-              // propagate value to 3x3 brush area
-              const texelX = texelIndex % atlasWidth;
-              const texelRowStart = texelIndex - texelX;
-
-              for (let offDir = 0; offDir < 8; offDir += 1) {
-                const offX = offDirX[offDir];
-                const offY = offDirY[offDir];
-
-                const offRowX = (atlasWidth + texelX + offX) % atlasWidth;
-                const offRowStart =
-                  (totalTexelCount + texelRowStart + offY * atlasWidth) %
-                  totalTexelCount;
-                const offTexelBase = (offRowStart + offRowX) * 4;
-
-                // fill texel if it will not/did not receive real computed data otherwise;
-                // also ensure strong neighbour values (not diagonal) take precedence
-                const offTexelFaceEnc = atlasMap.data[offTexelBase + 2];
-                const isStrongNeighbour = offX === 0 || offY === 0;
-                const isUnfilled = activeOutputData[offTexelBase + 3] === 0;
-
-                if (
-                  offTexelFaceEnc === 0 &&
-                  (isStrongNeighbour || isUnfilled)
-                ) {
-                  activeOutputData.set(tmpRgba, offTexelBase);
-                }
+              activeOutputData.set(tmpRgba, pageTexelIndex * 4);
+
+              if (texelOrder && !texelList) {
+                fillProgressivePreview(
+                  activeOutputData,
+                  atlasMaps[pageIndex],
+                  pageTexelIndex
+                );
               }
 
               activeOutput.needsUpdate = true;
+
+              if (ambientOcclusionRef.current) {
+                const [occlusionOutput, occlusionOutputData] = occlusionOutputs[
+                  pageIndex
+                ];
+
+                occlusionOutputData[pageTexelIndex] = tmpRgba[0];
+                occlusionOutput.needsUpdate = true;
+              }
+
+              if (directionalRef.current) {
+                const [directionOutput, directionOutputData] = directionOutputs[
+                  pageIndex
+                ];
+
+                readTexelDirection(
+                  tmpDirection,
+                  readLightProbe,
+                  probePixelAreaLookup,
+                  probePixelDirectionLookup
+                );
+                directionOutputData.set(tmpDirection, pageTexelIndex * 4);
+                directionOutput.needsUpdate = true;
+              }
             }
           );
 
           // mark state as completed once all texels are done
-          if (passTexelCounter[0] >= totalTexelCount) {
+          if (claimPassFinalization(processingState, totalTexelCount)) {
+            // clean up and pad out computed areas before result is used
+            activeOutputs.forEach(
+              ([activeOutput, activeOutputData], pageIndex) => {
+                // with partial re-bake, leave already settled texels alone
+                // (occlusion is not smoothed, the filter is tuned for colour)
+                if (!ambientOcclusionRef.current) {
+                  denoiseOutput(
+                    activeOutputData,
+                    atlasMaps[pageIndex],
+                    pageCharts[pageIndex],
+                    denoiseStrength,
+                    dirtyMask &&
+                      dirtyMask.subarray(
+                        pageIndex * pageTexelCount,
+                        (pageIndex + 1) * pageTexelCount
+                      )
+                  );
+                }
+                dilateOutput(
+                  activeOutputData,
+                  atlasWidth,
+                  atlasHeight,
+                  dilationRadius
+                );
+
+                // stitch last, so that texels outside of face coverage are included too
+                if (seamStitching) {
+                  stitchSeams(
+                    activeOutputData,
+                    atlasMaps[pageIndex],
+                    pageSeams[pageIndex]
+                  );
+                }
+
+                activeOutput.needsUpdate = true;
+              }
+            );
+
+            // occlusion value is in every channel, so just keep the first one
+            occlusionOutputs.forEach(
+              ([occlusionOutput, occlusionOutputData], pageIndex) => {
+                const activeOutputData = activeOutputs[pageIndex][1];
+
+                for (
+                  let texelIndex = 0;
+                  texelIndex < pageTexelCount;
+                  texelIndex += 1
+                ) {
+                  occlusionOutputData[texelIndex] =
+                    activeOutputData[texelIndex * 4];
+                }
+                occlusionOutput.needsUpdate = true;
+              }
+            );
+
+            // directions only need padding for texture filtering
+            for (const [
+              directionOutput,
+              directionOutputData
+            ] of directionOutputs) {
+              dilateOutput(
+                directionOutputData,
+                atlasWidth,
+                atlasHeight,
+                dilationRadius
+              );
+              directionOutput.needsUpdate = true;
+            }
+
+            // see how much this bounce changed the result
+            const { passCount, convergenceThreshold } = settingsRef.current;
+            const passStats = computePassStats(
+              activeOutputs,
+              previousOutputs,
+              passCount - passesRemaining - 1,
+              dirtyMask
+            );
+            passStatsRef.current.push(passStats);
+
+            const isConverged =
+              convergenceThreshold > 0 &&
+              passStats.relativeDelta < convergenceThreshold;
+
             setProcessingState((prev) => {
               return {
                 ...prev,
-                passComplete: true
+                passComplete: true,
+                passesRemaining: isConverged ? 0 : prev.passesRemaining
               };
             });
           }
+
+          const onProgress = onProgressRef.current;
+          if (onProgress) {
+            const { passCount } = settingsRef.current;
+            const passIndex = passCount - passesRemaining - 1;
+            const texelsDone = Math.min(passTexelCounter[0], totalTexelCount);
+            const elapsedTime = performance.now() - bakeStartTimeRef.current;
+
+            // extrapolate from overall fraction of work done so far
+            const doneFraction =
+              (passIndex * totalTexelCount + texelsDone) /
+              (passCount * totalTexelCount);
+
+            onProgress({
+              passIndex,
+              passCount,
+              texelsDone,
+              texelsTotal: totalTexelCount,
+              elapsedTime,
+              remainingTime:
+                doneFraction > 0
+                  ? (elapsedTime * (1 - doneFraction)) / doneFraction
+                  : null
+            });
+          }
         }
   );
 
+  // report final result once
+  useEffect(() => {
+    const onComplete = onCompleteRef.current;
+    if (!outputIsComplete || !onComplete) {
+      return;
+    }
+
+    const lightMapOutputs = ambientOcclusionRef.current ? [] : activeOutputs;
+
+    onComplete(
+      lightMapOutputs.map(([activeOutput]) => activeOutput),
+      lightMapOutputs.map(([, activeOutputData]) => activeOutputData),
+      passStatsRef.current,
+      occlusionOutputs.map(([, occlusionOutputData]) => occlusionOutputData)
+    );
+  }, [outputIsComplete, activeOutputs, occlusionOutputs]);
+
   // debug probe
   const {
     renderLightProbeBatch: debugProbeBatch,
     debugLightProbeTexture
-  } = useLightProbe(probeTargetSize);
-  const debugProbeRef = useRef(false);
+  } = useLightProbe(settingsRef.current, smoothNormalsRef.current);
   useFrame(({ gl }) => {
     const lightScene = lightSceneRef.current;
     if (!lightScene) {
@@ -542,8 +1589,6 @@ const IrradianceRenderer: React.FC<{
     }
     debugProbeRef.current = true;
 
-    const atlasMap = atlasMapRef.current;
-
     let batchCount = 0;
 
     debugProbeBatch(
@@ -551,7 +1596,7 @@ const IrradianceRenderer: React.FC<{
       lightScene,
       (renderBatchItem) => {
         queueTexel(
-          atlasMap,
+          atlasMaps,
           atlasWidth * 18 + 21 + batchCount,
           renderBatchItem
         );
@@ -565,7 +1610,11 @@ const IrradianceRenderer: React.FC<{
 
   return (
     <>
-      {props.children(activeOutput)}
+      {props.children(
+        activeOutputTextures,
+        directionOutputTextures,
+        occlusionOutputTextures
+      )}
 
       {outputIsComplete
         ? null
@@ -0,0 +1,164 @@
+import * as THREE from 'three';
+
+import {
+  findAtlasSeams,
+  findAtlasCharts,
+  stitchSeams
+} from './IrradianceSeams';
+import { createAtlasMapItem, AtlasMap } from './IrradianceAtlasMapper';
+
+const ATLAS_SIZE = 10;
+
+// two triangles sharing the P-Q edge (walked in opposite directions),
+// with lightmap UVs for each corner and a normal for each face
+function createFacePair(
+  uv2: number[],
+  normalA: number[],
+  normalB: number[]
+): THREE.BufferGeometry {
+  const p = [0, 0, 0];
+  const q = [0, 1, 0];
+
+  const buffer = new THREE.BufferGeometry();
+  buffer.setAttribute(
+    'position',
+    new THREE.Float32BufferAttribute(
+      [...p, ...q, -1, 0, 0, ...q, ...p, 1, 0, 0],
+      3
+    )
+  );
+  buffer.setAttribute(
+    'normal',
+    new THREE.Float32BufferAttribute(
+      [...normalA, ...normalA, ...normalA, ...normalB, ...normalB, ...normalB],
+      3
+    )
+  );
+  buffer.setAttribute('uv2', new THREE.Float32BufferAttribute(uv2, 2));
+
+  return buffer;
+}
+
+// face B laid out half an atlas to the right of face A
+const splitUV2 = [0.2, 0.1, 0.2, 0.4, 0.1, 0.1, 0.7, 0.4, 0.7, 0.1, 0.8, 0.1];
+
+// face B laid out right against face A
+const joinedUV2 = [0.2, 0.1, 0.2, 0.4, 0.1, 0.1, 0.2, 0.4, 0.2, 0.1, 0.3, 0.1];
+
+const up = [0, 0, 1];
+const side = [1, 0, 0];
+
+function createAtlasMap(buffers: THREE.BufferGeometry[]): AtlasMap {
+  return {
+    width: ATLAS_SIZE,
+    height: ATLAS_SIZE,
+    items: buffers.map((buffer, itemIndex) =>
+      createAtlasMapItem(
+        {
+          mesh: new THREE.Mesh(buffer),
+          buffer,
+          material: new THREE.MeshLambertMaterial(),
+          factorName: null,
+          animationClip: null,
+          indexRange: null,
+          lightmapScale: null
+        },
+        itemIndex
+      )
+    ),
+    data: new Float32Array(ATLAS_SIZE * ATLAS_SIZE * 4),
+    texture: new THREE.Texture()
+  };
+}
+
+function getTexelValue(data: Float32Array, x: number, y: number) {
+  return data[(y * ATLAS_SIZE + x) * 4];
+}
+
+function setTexelValue(
+  data: Float32Array,
+  x: number,
+  y: number,
+  value: number
+) {
+  data[(y * ATLAS_SIZE + x) * 4] = value;
+}
+
+describe('findAtlasSeams', () => {
+  it('pairs up both sides of a split edge in matching order', () => {
+    const seams = findAtlasSeams(
+      createAtlasMap([createFacePair(splitUV2, up, up)])
+    );
+
+    expect(seams.length).toBe(1);
+
+    // each endpoint is on the same geometric corner on both sides
+    const { uvA, uvB } = seams[0];
+    for (let endpoint = 0; endpoint < 2; endpoint += 1) {
+      expect(uvB[endpoint].x - uvA[endpoint].x).toBeCloseTo(0.5);
+      expect(uvB[endpoint].y).toBeCloseTo(uvA[endpoint].y);
+    }
+  });
+
+  it('ignores edges that are laid out together', () => {
+    const seams = findAtlasSeams(
+      createAtlasMap([createFacePair(joinedUV2, up, up)])
+    );
+
+    expect(seams).toEqual([]);
+  });
+
+  it('ignores edges along creases', () => {
+    const seams = findAtlasSeams(
+      createAtlasMap([createFacePair(splitUV2, up, side)])
+    );
+
+    expect(seams).toEqual([]);
+  });
+});
+
+describe('findAtlasCharts', () => {
+  it('labels uv2 islands with indexes unique across items', () => {
+    const faceCharts = findAtlasCharts(
+      createAtlasMap([
+        createFacePair(splitUV2, up, up),
+        createFacePair(joinedUV2, up, up)
+      ])
+    );
+
+    const [splitCharts, joinedCharts] = faceCharts.map((charts) =>
+      Array.from(charts)
+    );
+
+    expect(splitCharts[0]).not.toBe(splitCharts[1]);
+    expect(joinedCharts[0]).toBe(joinedCharts[1]);
+    expect(splitCharts).not.toContain(joinedCharts[0]);
+  });
+});
+
+describe('stitchSeams', () => {
+  it('averages texels on both sides along the seam', () => {
+    const atlasMap = createAtlasMap([]);
+    const data = new Float32Array(ATLAS_SIZE * ATLAS_SIZE * 4);
+
+    // side B runs in reverse, so row order is flipped
+    for (let y = 1; y <= 8; y += 1) {
+      setTexelValue(data, 1, y, y);
+      setTexelValue(data, 6, 9 - y, 0);
+    }
+    setTexelValue(data, 3, 3, 5); // unrelated texel
+
+    stitchSeams(data, atlasMap, [
+      {
+        uvA: [new THREE.Vector2(0.15, 0.15), new THREE.Vector2(0.15, 0.85)],
+        uvB: [new THREE.Vector2(0.65, 0.85), new THREE.Vector2(0.65, 0.15)]
+      }
+    ]);
+
+    for (let y = 1; y <= 8; y += 1) {
+      expect(getTexelValue(data, 1, y)).toBeCloseTo(y / 2);
+      expect(getTexelValue(data, 6, 9 - y)).toBeCloseTo(y / 2);
+    }
+    expect(getTexelValue(data, 3, 3)).toBe(5);
+  });
+});
@@ -0,0 +1,251 @@
+import * as THREE from 'three';
+
+import { AtlasMap } from './IrradianceAtlasMapper';
+import { getBufferFaceIndexArray } from './IrradianceSurfaceManager';
+import { getPositionKey } from './AutoUV2';
+
+// geometric edge shared by two faces that are laid out in different spots of the atlas;
+// both sides are given as uv2 start/end with matching endpoint order
+export interface AtlasSeam {
+  uvA: [THREE.Vector2, THREE.Vector2];
+  uvB: [THREE.Vector2, THREE.Vector2];
+}
+
+// matching UVs are considered the same edge layout (not a seam)
+const UV_EPSILON = 1e-6;
+
+// faces meeting at a sharper angle than this are a crease, not a seam
+// (lighting is expected to differ on either side)
+const SEAM_CREASE_THRESHOLD = Math.cos(Math.PI / 4);
+
+interface EdgeInfo {
+  startKey: string;
+  uvStart: THREE.Vector2;
+  uvEnd: THREE.Vector2;
+  normal: THREE.Vector3;
+}
+
+// find shared geometric edges inside each mesh buffer whose uv2 coordinates differ on either side
+// (geometry groups of the same buffer are matched up with each other too);
+// edges along sharp creases are left alone
+export function findAtlasSeams(atlasMap: AtlasMap): AtlasSeam[] {
+  const seams: AtlasSeam[] = [];
+
+  // first face edge seen for each position pair
+  const bufferEdgeMaps = new Map<THREE.BufferGeometry, Map<string, EdgeInfo>>();
+
+  for (const atlasItem of atlasMap.items) {
+    const { faceBuffer, originalBuffer, faceCount, faceStart } = atlasItem;
+
+    const indexArray = getBufferFaceIndexArray(originalBuffer);
+    const posArray = originalBuffer.attributes.position.array;
+    const uv2Attr = originalBuffer.attributes.uv2;
+    const normalArray = faceBuffer.attributes.normal.array;
+
+    const edgeMap =
+      bufferEdgeMaps.get(originalBuffer) || new Map<string, EdgeInfo>();
+    bufferEdgeMaps.set(originalBuffer, edgeMap);
+
+    for (let faceIndex = 0; faceIndex < faceCount; faceIndex += 1) {
+      const faceVertexBase = (faceStart + faceIndex) * 3;
+
+      // face normal is stored on the first vertex of the face
+      const normal = new THREE.Vector3().fromArray(normalArray, faceIndex * 9);
+
+      for (let corner = 0; corner < 3; corner += 1) {
+        const startVertex = indexArray[faceVertexBase + corner];
+        const endVertex = indexArray[faceVertexBase + ((corner + 1) % 3)];
+
+        const startKey = getPositionKey(posArray, startVertex);
+        const endKey = getPositionKey(posArray, endVertex);
+
+        // degenerate edge
+        if (startKey === endKey) {
+          continue;
+        }
+
+        const edgeKey =
+          startKey < endKey ? `${startKey}|${endKey}` : `${endKey}|${startKey}`;
+
+        const uvStart = new THREE.Vector2(
+          uv2Attr.getX(startVertex),
+          uv2Attr.getY(startVertex)
+        );
+        const uvEnd = new THREE.Vector2(
+          uv2Attr.getX(endVertex),
+          uv2Attr.getY(endVertex)
+        );
+
+        const other = edgeMap.get(edgeKey);
+
+        if (!other) {
+          edgeMap.set(edgeKey, { startKey, uvStart, uvEnd, normal });
+          continue;
+        }
+
+        // only pair up once (non-manifold extra faces are ignored)
+        edgeMap.delete(edgeKey);
+
+        if (normal.dot(other.normal) < SEAM_CREASE_THRESHOLD) {
+          continue;
+        }
+
+        // flip to match endpoint order of the other side
+        const matchStart = other.startKey === startKey ? uvStart : uvEnd;
+        const matchEnd = other.startKey === startKey ? uvEnd : uvStart;
+
+        if (
+          matchStart.distanceTo(other.uvStart) < UV_EPSILON &&
+          matchEnd.distanceTo(other.uvEnd) < UV_EPSILON
+        ) {
+          continue;
+        }
+
+        seams.push({
+          uvA: [other.uvStart, other.uvEnd],
+          uvB: [matchStart, matchEnd]
+        });
+      }
+    }
+  }
+
+  return seams;
+}
+
+function getUVKey(uv2Attr: THREE.BufferAttribute, vertexIndex: number) {
+  return `${Math.round(uv2Attr.getX(vertexIndex) / UV_EPSILON)},${Math.round(
+    uv2Attr.getY(vertexIndex) / UV_EPSILON
+  )}`;
+}
+
+// label connected uv2 islands (charts) of each item, returns chart index per item face;
+// indexes are unique across the atlas map, so charts of different items never match
+export function findAtlasCharts(atlasMap: AtlasMap): Int32Array[] {
+  let chartCount = 0;
+
+  return atlasMap.items.map((atlasItem) => {
+    const { originalBuffer, faceCount, faceStart } = atlasItem;
+
+    const indexArray = getBufferFaceIndexArray(originalBuffer);
+    const uv2Attr = originalBuffer.attributes.uv2 as THREE.BufferAttribute;
+
+    // union-find over faces that share an edge in the uv2 layout
+    const faceParents = new Int32Array(faceCount);
+    for (let faceIndex = 0; faceIndex < faceCount; faceIndex += 1) {
+      faceParents[faceIndex] = faceIndex;
+    }
+
+    const findRoot = (faceIndex: number) => {
+      while (faceParents[faceIndex] !== faceIndex) {
+        faceParents[faceIndex] = faceParents[faceParents[faceIndex]];
+        faceIndex = faceParents[faceIndex];
+      }
+
+      return faceIndex;
+    };
+
+    const edgeFaces = new Map<string, number>();
+
+    for (let faceIndex = 0; faceIndex < faceCount; faceIndex += 1) {
+      const faceVertexBase = (faceStart + faceIndex) * 3;
+
+      for (let corner = 0; corner < 3; corner += 1) {
+        const startKey = getUVKey(uv2Attr, indexArray[faceVertexBase + corner]);
+        const endKey = getUVKey(
+          uv2Attr,
+          indexArray[faceVertexBase + ((corner + 1) % 3)]
+        );
+
+        // degenerate edge
+        if (startKey === endKey) {
+          continue;
+        }
+
+        const edgeKey =
+          startKey < endKey ? `${startKey}|${endKey}` : `${endKey}|${startKey}`;
+
+        const otherFaceIndex = edgeFaces.get(edgeKey);
+        if (otherFaceIndex === undefined) {
+          edgeFaces.set(edgeKey, faceIndex);
+          continue;
+        }
+
+        faceParents[findRoot(faceIndex)] = findRoot(otherFaceIndex);
+      }
+    }
+
+    const faceCharts = new Int32Array(faceCount);
+    const rootCharts = new Map<number, number>();
+
+    for (let faceIndex = 0; faceIndex < faceCount; faceIndex += 1) {
+      const rootIndex = findRoot(faceIndex);
+
+      let chartIndex = rootCharts.get(rootIndex);
+      if (chartIndex === undefined) {
+        chartIndex = chartCount;
+        chartCount += 1;
+        rootCharts.set(rootIndex, chartIndex);
+      }
+
+      faceCharts[faceIndex] = chartIndex;
+    }
+
+    return faceCharts;
+  });
+}
+
+// temp objects for computation
+const tmpUVA = new THREE.Vector2();
+const tmpUVB = new THREE.Vector2();
+
+function getTexelIndex(uv: THREE.Vector2, width: number, height: number) {
+  const x = Math.min(width - 1, Math.max(0, Math.floor(uv.x * width)));
+  const y = Math.min(height - 1, Math.max(0, Math.floor(uv.y * height)));
+  return y * width + x;
+}
+
+// walk along each seam and make the texels on both sides match by averaging them;
+// a few iterations let the shared values settle where several seams meet
+export function stitchSeams(
+  data: Float32Array,
+  atlasMap: AtlasMap,
+  seams: AtlasSeam[],
+  iterationCount = 2
+) {
+  const { width, height } = atlasMap;
+
+  for (let iteration = 0; iteration < iterationCount; iteration += 1) {
+    for (const seam of seams) {
+      const [aStart, aEnd] = seam.uvA;
+      const [bStart, bEnd] = seam.uvB;
+
+      // sample at least twice per texel along the longer side
+      const texelLength = Math.max(
+        tmpUVA.subVectors(aEnd, aStart).multiplyScalar(width).length(),
+        tmpUVB.subVectors(bEnd, bStart).multiplyScalar(width).length()
+      );
+      const sampleCount = Math.ceil(texelLength * 2) + 1;
+
+      for (let sample = 0; sample <= sampleCount; sample += 1) {
+        const t = sample / sampleCount;
+
+        tmpUVA.lerpVectors(aStart, aEnd, t);
+        tmpUVB.lerpVectors(bStart, bEnd, t);
+
+        const texelBaseA = getTexelIndex(tmpUVA, width, height) * 4;
+        const texelBaseB = getTexelIndex(tmpUVB, width, height) * 4;
+
+        if (texelBaseA === texelBaseB) {
+          continue;
+        }
+
+        for (let channel = 0; channel < 3; channel += 1) {
+          const value =
+            (data[texelBaseA + channel] + data[texelBaseB + channel]) / 2;
+          data[texelBaseA + channel] = value;
+          data[texelBaseB + channel] = value;
+        }
+      }
+    }
+  }
+}
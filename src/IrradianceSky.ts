@@ -0,0 +1,89 @@
+import * as THREE from 'three';
+
+import { AtlasSky } from './IrradianceSurfaceManager';
+
+const skyVertexShader = `
+  varying vec3 vDirection;
+
+  void main() {
+    vDirection = position;
+
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    gl_Position.z = gl_Position.w; // always sits on the far plane
+  }
+`;
+
+const skyFragmentShader = `
+  #define PI 3.141592653589793
+
+  uniform vec3 color;
+  uniform vec3 groundColor;
+  uniform sampler2D environmentMap;
+  uniform float intensity;
+
+  varying vec3 vDirection;
+
+  void main() {
+    vec3 direction = normalize(vDirection);
+
+    #if defined(USE_ENVIRONMENT_MAP)
+      // equirectangular lookup, same layout as three.js equirect maps
+      vec2 uv = vec2(
+        atan(direction.z, direction.x) / (2.0 * PI) + 0.5,
+        asin(clamp(direction.y, -1.0, 1.0)) / PI + 0.5
+      );
+      vec3 radiance = texture2D(environmentMap, uv).rgb;
+    #elif defined(USE_GRADIENT)
+      // same blend as the hemisphere light
+      vec3 radiance = mix(groundColor, color, direction.y * 0.5 + 0.5);
+    #else
+      vec3 radiance = color;
+    #endif
+
+    gl_FragColor = vec4(radiance * intensity, 1.0);
+  }
+`;
+
+// background shell for the light probe scene: the box follows the probe camera
+// and is drawn first without depth, so it fills every pixel where rays escape
+// (several skies add up)
+export function createSkyMesh(sky: AtlasSky): THREE.Mesh {
+  const { color, groundColor, environmentMap, intensity } = sky;
+
+  const defines: { [name: string]: string } = {};
+  if (environmentMap) {
+    defines.USE_ENVIRONMENT_MAP = '';
+  } else if (groundColor) {
+    defines.USE_GRADIENT = '';
+  }
+
+  const material = new THREE.ShaderMaterial({
+    defines,
+    uniforms: {
+      color: { value: color },
+      groundColor: { value: groundColor || color },
+      environmentMap: { value: environmentMap },
+      intensity: { value: intensity }
+    },
+    vertexShader: skyVertexShader,
+    fragmentShader: skyFragmentShader,
+    side: THREE.BackSide,
+    blending: THREE.AdditiveBlending,
+    depthTest: false,
+    depthWrite: false,
+    toneMapped: false // must output in raw linear space
+  });
+
+  const mesh = new THREE.Mesh(new THREE.BoxBufferGeometry(1, 1, 1), material);
+
+  mesh.frustumCulled = false;
+  mesh.renderOrder = -1;
+
+  // not a real surface, so it must not block shadow rays
+  mesh.raycast = () => {};
+  mesh.onBeforeRender = (renderer, scene, camera) => {
+    mesh.matrixWorld.copyPosition(camera.matrixWorld);
+  };
+
+  return mesh;
+}
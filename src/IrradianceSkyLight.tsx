@@ -0,0 +1,31 @@
+import React from 'react';
+import * as THREE from 'three';
+
+import { useSkyLight } from './IrradianceSurfaceManager';
+
+// light coming from outside the scene: constant colour, hemisphere gradient
+// (when ground colour is given) or equirectangular environment map
+export const IrradianceSkyLight: React.FC<{
+  factor?: string;
+  color?: THREE.Color | string | number;
+  groundColor?: THREE.Color | string | number;
+  environmentMap?: THREE.Texture;
+  intensity?: number;
+}> = ({ factor, color, groundColor, environmentMap, intensity }) => {
+  useSkyLight(
+    {
+      color: new THREE.Color(color === undefined ? 0xffffff : color),
+      groundColor:
+        groundColor === undefined ? null : new THREE.Color(groundColor),
+      environmentMap: environmentMap || null,
+      intensity: intensity === undefined ? 1 : intensity
+    },
+    factor || null
+  );
+
+  // @todo dynamic sky update
+
+  return null;
+};
+
+export default IrradianceSkyLight;
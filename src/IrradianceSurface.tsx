@@ -4,38 +4,52 @@ import * as THREE from 'three';
 
 import {
   useAtlasMeshRef,
+  isAtlasDisplayMaterial,
+  AtlasDisplayMaterial,
   IrradianceTextureContext
 } from './IrradianceSurfaceManager';
+import { applyDirectionalLightMap } from './IrradianceDirectionalLightMap';
 
 export const IrradianceSurface: React.FC<{
   factor?: string;
   animationClip?: THREE.AnimationClip;
+  lightmapScale?: number; // relative texel density (re-packs authored uv2)
   children: React.ReactElement<{}, 'mesh' | 'primitive'>;
   innerRef?: React.MutableRefObject<THREE.Mesh | undefined>; // convenience ref
   innerMaterialRef?: React.MutableRefObject<
-    THREE.MeshLambertMaterial | undefined
+    AtlasDisplayMaterial | AtlasDisplayMaterial[] | undefined
   >; // convenience ref
-}> = ({ factor, animationClip, children, innerRef, innerMaterialRef }) => {
-  const irradianceMap = useContext(IrradianceTextureContext);
+}> = ({
+  factor,
+  animationClip,
+  lightmapScale,
+  children,
+  innerRef,
+  innerMaterialRef
+}) => {
+  // textures are not available until the atlas is mapped
+  const irradianceTextures = useContext(IrradianceTextureContext);
 
-  if (!irradianceMap) {
-    throw new Error('no texture provided');
-  }
-
-  const materialRef = useRef<THREE.MeshLambertMaterial | undefined>(undefined);
+  const materialsRef = useRef<AtlasDisplayMaterial[]>([]);
   const meshRef = useAtlasMeshRef(
     factor || null,
     animationClip || null,
+    lightmapScale === undefined ? null : lightmapScale,
     (mesh) => {
-      if (Array.isArray(mesh.material)) {
-        throw new Error('material array not supported');
-      }
+      const materialList = Array.isArray(mesh.material)
+        ? mesh.material
+        : [mesh.material];
 
-      if (!(mesh.material instanceof THREE.MeshLambertMaterial)) {
-        throw new Error('only Lambert materials are supported');
-      }
+      // all materials share the same lightmap
+      materialsRef.current = materialList.map((material) => {
+        if (!isAtlasDisplayMaterial(material)) {
+          throw new Error(
+            'only Lambert, Phong or Standard materials are supported'
+          );
+        }
 
-      materialRef.current = mesh.material;
+        return material;
+      });
 
       // fill convenience refs for upstream
       if (innerRef) {
@@ -43,25 +57,39 @@ export const IrradianceSurface: React.FC<{
       }
 
       if (innerMaterialRef) {
-        innerMaterialRef.current = mesh.material;
+        innerMaterialRef.current = Array.isArray(mesh.material)
+          ? materialsRef.current
+          : materialsRef.current[0];
       }
     }
   );
 
   // override lightmap with our own
   useEffect(() => {
-    const material = materialRef.current;
+    const mesh = meshRef.current;
+    const materials = materialsRef.current;
 
-    if (!material) {
+    if (!mesh || !irradianceTextures) {
       return;
     }
 
     // only use lightmap if this has an atlas entry
-    // @todo better signaling
-    if (material.map) {
-      material.lightMap = irradianceMap;
+    const pageIndex = irradianceTextures.atlasMaps.findIndex((atlasMap) =>
+      atlasMap.items.some((item) => item.originalMesh === mesh)
+    );
+
+    if (pageIndex !== -1) {
+      const { textures, directionTextures } = irradianceTextures;
+
+      for (const material of materials) {
+        material.lightMap = textures[pageIndex];
+        applyDirectionalLightMap(
+          material,
+          directionTextures ? directionTextures[pageIndex] : null
+        );
+      }
     }
-  }, [irradianceMap]);
+  }, [meshRef, irradianceTextures]);
 
   return React.cloneElement(children, { ref: meshRef });
 };
@@ -1,21 +1,58 @@
-import React, { useMemo, useCallback, useContext } from 'react';
+import React, { useMemo, useCallback, useContext, useEffect } from 'react';
 import { useUpdate } from 'react-three-fiber';
 import * as THREE from 'three';
 
+import { AtlasMap } from './IrradianceAtlasMapper';
+
+// display materials that have albedo, emissive and lightmap slots
+export type AtlasDisplayMaterial =
+  | THREE.MeshLambertMaterial
+  | THREE.MeshPhongMaterial
+  | THREE.MeshStandardMaterial;
+
+export function isAtlasDisplayMaterial(
+  material: THREE.Material
+): material is AtlasDisplayMaterial {
+  return (
+    material instanceof THREE.MeshLambertMaterial ||
+    material instanceof THREE.MeshPhongMaterial ||
+    material instanceof THREE.MeshStandardMaterial // includes physical material
+  );
+}
+
 export interface AtlasSceneItem {
   mesh: THREE.Mesh;
   buffer: THREE.Geometry | THREE.BufferGeometry; // either is fine
-  albedo: THREE.Color;
-  albedoMap?: THREE.Texture;
-  emissive: THREE.Color;
-  emissiveIntensity: number;
-  emissiveMap?: THREE.Texture;
+  material: AtlasDisplayMaterial; // colours and maps are read live from here
   factorName: string | null;
   animationClip: THREE.AnimationClip | null;
+  indexRange: { start: number; count: number } | null; // geometry group, null for whole buffer
+  lightmapScale: number | null; // texel density multiplier, null keeps authored layout
 }
 
+// light types that can be baked (all of them cast shadows in the light probe scene,
+// except area lights, which are evaluated per texel)
+export type AtlasLight =
+  | THREE.DirectionalLight
+  | THREE.PointLight
+  | THREE.SpotLight
+  | THREE.RectAreaLight;
+
 export interface AtlasSceneLight {
-  dirLight: THREE.DirectionalLight;
+  light: AtlasLight;
+  factorName: string | null;
+}
+
+// light seen by probe rays that escape the scene
+export interface AtlasSky {
+  color: THREE.Color; // constant colour, or upper half of hemisphere gradient
+  groundColor: THREE.Color | null; // lower half of hemisphere gradient
+  environmentMap: THREE.Texture | null; // equirectangular, takes precedence over colours
+  intensity: number;
+}
+
+export interface AtlasSceneSky {
+  sky: AtlasSky;
   factorName: string | null;
 }
 
@@ -27,6 +64,7 @@ export interface AtlasLightFactor {
 export interface Atlas {
   lightSceneItems: AtlasSceneItem[];
   lightSceneLights: AtlasSceneLight[];
+  lightSceneSkies: AtlasSceneSky[];
 }
 
 const IrradianceAtlasContext = React.createContext<Atlas | null>(null);
@@ -41,15 +79,51 @@ export function useIrradianceAtlasContext() {
   return atlasInfo;
 }
 
+// composited lightmap per atlas page (same order as atlas maps)
+export interface IrradianceTextureInfo {
+  atlasMaps: AtlasMap[];
+  textures: THREE.Texture[];
+  directionTextures: THREE.Texture[] | null; // dominant light direction, if baked
+}
+
 // @todo wrap in provider helper
-export const IrradianceTextureContext = React.createContext<THREE.Texture | null>(
+export const IrradianceTextureContext = React.createContext<IrradianceTextureInfo | null>(
   null
 );
 
+// stand-in index arrays for non-indexed geometry
+const sequentialIndexCache = new WeakMap<THREE.BufferGeometry, Uint32Array>();
+
+// face vertex list laid out like an index array for both indexed and non-indexed buffers
+// (non-indexed geometry is treated as consecutive vertex triplets)
+export function getBufferFaceIndexArray(
+  buffer: THREE.BufferGeometry
+): ArrayLike<number> {
+  if (buffer.index) {
+    return buffer.index.array;
+  }
+
+  const vertexCount = buffer.attributes.position.count;
+  const cachedArray = sequentialIndexCache.get(buffer);
+
+  if (cachedArray && cachedArray.length === vertexCount) {
+    return cachedArray;
+  }
+
+  const sequentialArray = new Uint32Array(vertexCount);
+  for (let vertexIndex = 0; vertexIndex < vertexCount; vertexIndex += 1) {
+    sequentialArray[vertexIndex] = vertexIndex;
+  }
+
+  sequentialIndexCache.set(buffer, sequentialArray);
+  return sequentialArray;
+}
+
 // attach a mesh to be mapped in texture atlas
 export function useAtlasMeshRef(
   factorName: string | null,
   animationClip: THREE.AnimationClip | null,
+  lightmapScale: number | null,
   withMesh?: (mesh: THREE.Mesh) => void
 ) {
   const atlas = useIrradianceAtlasContext();
@@ -57,35 +131,45 @@ export function useAtlasMeshRef(
 
   const meshRef = useUpdate<THREE.Mesh>((mesh) => {
     const meshBuffer = mesh.geometry;
-    const material = mesh.material;
 
-    if (Array.isArray(material)) {
-      throw new Error('material array not supported');
+    if (!(meshBuffer instanceof THREE.BufferGeometry)) {
+      throw new Error('expected buffer geometry');
     }
 
-    if (!(material instanceof THREE.MeshLambertMaterial)) {
-      throw new Error('only Lambert materials are supported');
+    if (getBufferFaceIndexArray(meshBuffer).length % 3 !== 0) {
+      throw new Error('expecting triangle list mesh buffer');
     }
 
-    // register display item
-    lightSceneItems.push({
-      mesh,
-      buffer: meshBuffer,
-      albedo: material.color,
-      albedoMap: material.map || undefined,
-      emissive: material.emissive,
-      emissiveIntensity: material.emissiveIntensity, // @todo if factor contributor, zero emissive by default
-      emissiveMap: material.emissiveMap || undefined,
-      factorName,
-      animationClip
-    });
-
-    if (!(meshBuffer instanceof THREE.BufferGeometry)) {
-      throw new Error('expected buffer geometry');
+    // material arrays are split into one display item per geometry group
+    const materialList = mesh.material;
+    const groupMaterials = Array.isArray(materialList)
+      ? meshBuffer.groups.map((group) => ({
+          material: materialList[group.materialIndex || 0],
+          indexRange: { start: group.start, count: group.count }
+        }))
+      : [{ material: materialList, indexRange: null }];
+
+    if (groupMaterials.length === 0) {
+      throw new Error('expected geometry groups for material array');
     }
 
-    if (!meshBuffer.index) {
-      throw new Error('expecting indexed mesh buffer');
+    for (const { material, indexRange } of groupMaterials) {
+      if (!material || !isAtlasDisplayMaterial(material)) {
+        throw new Error(
+          'only Lambert, Phong or Standard materials are supported'
+        );
+      }
+
+      // register display item
+      lightSceneItems.push({
+        mesh,
+        buffer: meshBuffer,
+        material, // @todo if factor contributor, zero emissive by default
+        factorName,
+        animationClip,
+        indexRange,
+        lightmapScale
+      });
     }
 
     // allow upstream code to run
@@ -101,13 +185,20 @@ export function useLightRef(factorName: string | null) {
   const { lightSceneLights } = useIrradianceAtlasContext();
 
   const lightRef = useUpdate<THREE.Light>((light) => {
-    if (!(light instanceof THREE.DirectionalLight)) {
-      throw new Error('only directional lights are supported');
+    if (
+      !(light instanceof THREE.DirectionalLight) &&
+      !(light instanceof THREE.PointLight) &&
+      !(light instanceof THREE.SpotLight) &&
+      !(light instanceof THREE.RectAreaLight)
+    ) {
+      throw new Error(
+        'only directional, point, spot or rect area lights are supported'
+      );
     }
 
     // register display item
     lightSceneLights.push({
-      dirLight: light,
+      light,
       factorName
     });
   }, []);
@@ -115,11 +206,26 @@ export function useLightRef(factorName: string | null) {
   return lightRef;
 }
 
+export function useSkyLight(sky: AtlasSky, factorName: string | null) {
+  const { lightSceneSkies } = useIrradianceAtlasContext();
+
+  // read once
+  useEffect(() => {
+    const sceneSky = { sky, factorName };
+    lightSceneSkies.push(sceneSky);
+
+    return () => {
+      lightSceneSkies.splice(lightSceneSkies.indexOf(sceneSky), 1);
+    };
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+}
+
 const IrradianceSurfaceManager: React.FC = ({ children }) => {
   const atlas: Atlas = useMemo(
     () => ({
       lightSceneItems: [],
-      lightSceneLights: []
+      lightSceneLights: [],
+      lightSceneSkies: []
     }),
     []
   );